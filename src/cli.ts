@@ -7,6 +7,10 @@ import { readFileSync } from 'fs';
 import { join } from 'path';
 import { initCommand } from './commands/init';
 import { translateCommand } from './commands/translate';
+import { statusCommand } from './commands/status';
+import { pruneCommand } from './commands/prune';
+import { exportXliffCommand, importXliffCommand } from './commands/xliff';
+import { exportPoCommand, importPoCommand } from './commands/po';
 
 // Get package version (CommonJS compatible)
 const packageJson = JSON.parse(
@@ -46,6 +50,11 @@ program
   .option('-c, --config <path>', 'path to configuration file')
   .option('-d, --dry-run', 'show what would be translated without making API calls')
   .option('--clear-cache', 'clear translation cache before starting')
+  .option('--max-cost <usd>', 'stop sending requests once the estimated spend would exceed this amount')
+  .option('--retry-failed', 'only re-run pages that failed in the previous report')
+  .option('--resume', 'only re-run pages the previous report did not finish (failed, skipped or new)')
+  .option('--prune', 'remove localized files and cache entries whose source no longer exists')
+  .option('-w, --watch', 'keep running and retranslate pages of sourceDir when they change')
   .option('-v, --verbose', 'show detailed output')
   .action(async (options) => {
     try {
@@ -56,6 +65,97 @@ program
     }
   });
 
+// Coverage of every page in every language
+program
+  .command('status')
+  .description('Show which localized pages are missing, stale or up to date (no API calls)')
+  .option('-c, --config <path>', 'path to configuration file')
+  .option('--json', 'print the status as JSON')
+  .action(async (options) => {
+    try {
+      await statusCommand(options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
+// Removal of orphaned localized files and cache entries
+program
+  .command('prune')
+  .description('Remove localized files and cache entries whose source no longer exists')
+  .option('-c, --config <path>', 'path to configuration file')
+  .option('-d, --dry-run', 'only list what would be removed')
+  .option('-y, --yes', 'delete without asking for confirmation')
+  .action(async (options) => {
+    try {
+      await pruneCommand(options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
+// XLIFF export for review in CAT tools
+program
+  .command('export-xliff')
+  .description('Export segments and current translations as XLIFF 2.0, one file per language')
+  .option('-c, --config <path>', 'path to configuration file')
+  .option('-o, --output <dir>', 'directory to write the .xlf files to', 'xliff')
+  .option('-l, --languages <codes>', 'comma-separated target languages (default: all)')
+  .action(async (options) => {
+    try {
+      await exportXliffCommand(options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
+// XLIFF import of reviewed translations
+program
+  .command('import-xliff <files...>')
+  .description('Import reviewed XLIFF files; their translations win on the next translate run')
+  .option('-c, --config <path>', 'path to configuration file')
+  .action(async (files, options) => {
+    try {
+      await importXliffCommand(files, options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
+// Gettext PO export for community translators
+program
+  .command('export-po')
+  .description('Export segments as a POT template and one .po file per language')
+  .option('-c, --config <path>', 'path to configuration file')
+  .option('-o, --output <dir>', 'directory to write the .po files to', 'po')
+  .option('-l, --languages <codes>', 'comma-separated target languages (default: all)')
+  .action(async (options) => {
+    try {
+      await exportPoCommand(options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
+// Gettext PO import of translated files
+program
+  .command('import-po <files...>')
+  .description('Import translated .po files; their msgstr values win on the next translate run')
+  .option('-c, --config <path>', 'path to configuration file')
+  .action(async (files, options) => {
+    try {
+      await importPoCommand(files, options);
+    } catch (error) {
+      console.error(chalk.red('Error:'), error);
+      process.exit(1);
+    }
+  });
+
 // Parse arguments
 program.parse(process.argv);
 
@@ -32,11 +32,24 @@ export async function initCommand(): Promise<void> {
       message: 'Output directory path (where translations will be saved):',
       default: './dist-i18n',
     },
+    {
+      type: 'input',
+      name: 'sourceLanguage',
+      message: 'Source language of your site (e.g., en, de):',
+      default: 'en',
+      validate: (input: string) => {
+        if (!validateLanguageCode(input.trim())) {
+          return `Invalid language code: ${input}. Use ISO 639-1 format (e.g., 'en' or 'en-US')`;
+        }
+        return true;
+      },
+      filter: (input: string) => input.trim(),
+    },
     {
       type: 'input',
       name: 'targetLanguages',
       message: 'Target languages (comma-separated, e.g., es,fr,de,ja):',
-      validate: (input: string) => {
+      validate: (input: string, answers?: { sourceLanguage?: string }) => {
         const languages = input.split(',').map(l => l.trim());
         if (languages.length === 0) {
           return 'Please enter at least one language';
@@ -45,6 +58,9 @@ export async function initCommand(): Promise<void> {
           if (!validateLanguageCode(lang)) {
             return `Invalid language code: ${lang}. Use ISO 639-1 format (e.g., 'es' or 'es-MX')`;
           }
+          if (lang === answers?.sourceLanguage) {
+            return `${lang} is the source language and cannot be a target language`;
+          }
         }
         return true;
       },
@@ -110,6 +126,7 @@ export async function initCommand(): Promise<void> {
   const config: TranslatorConfig = {
     sourceDir: answers.sourceDir,
     outputDir: answers.outputDir,
+    sourceLanguage: answers.sourceLanguage,
     targetLanguages: answers.targetLanguages,
     openaiModel: answers.openaiModel,
     cache: {
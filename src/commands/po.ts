@@ -0,0 +1,155 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadConfig, findTargetLanguage } from '../utils/config';
+import { ReviewStore } from '../utils/review-store';
+import { getSegmentId } from '../utils/pages';
+import { SegmentExporter, ExportedSegment } from '../core/segment-exporter';
+import { buildPo, parsePo, PoEntry } from '../core/po';
+import { validateFragment } from '../core/fragment-validator';
+
+export async function exportPoCommand(options: {
+  config?: string;
+  output?: string;
+  languages?: string;
+}): Promise<void> {
+  let spinner = ora('Loading configuration...').start();
+
+  try {
+    const config = await loadConfig(options.config);
+    spinner.succeed('Configuration loaded');
+
+    spinner = ora('Extracting translatable content...').start();
+    const exporter = new SegmentExporter(config);
+    const errors = await exporter.load();
+    spinner.succeed(`Extracted segments from ${exporter.getPageCount()} pages`);
+
+    for (const { htmlFile, message } of errors) {
+      console.log(chalk.red('✗') + ` ${chalk.gray(htmlFile)} ` + chalk.red(`Failed: ${message}`));
+    }
+
+    const outputDir = path.resolve(options.output || 'po');
+    await fs.ensureDir(outputDir);
+
+    const headers = (language?: string): Record<string, string> => ({
+      'Project-Id-Version': 'ai-static-translator',
+      ...(language ? { Language: language } : {}),
+      'MIME-Version': '1.0',
+      'Content-Type': 'text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding': '8bit',
+      'X-Source-Language': exporter.getSourceLanguage(),
+    });
+
+    const languages = exporter.getLanguages(options.languages);
+
+    // Template without translations, for starting a new language
+    const templateFiles = await exporter.getFiles(languages[0] || exporter.getSourceLanguage());
+    const templatePath = path.join(outputDir, 'messages.pot');
+    await fs.writeFile(templatePath, buildPo({
+      headers: headers(),
+      entries: templateFiles.flatMap(file =>
+        file.segments.map(segment => toPoEntry(file.path, { ...segment, translation: undefined }))
+      ),
+    }), 'utf-8');
+    console.log(chalk.green('✓') + ` template → ${chalk.gray(path.relative(process.cwd(), templatePath))}`);
+
+    for (const language of languages) {
+      const files = await exporter.getFiles(language);
+      const entries = files.flatMap(file => file.segments.map(segment => toPoEntry(file.path, segment)));
+
+      const filePath = path.join(outputDir, `${language}.po`);
+      await fs.writeFile(filePath, buildPo({ headers: headers(language), entries }), 'utf-8');
+
+      const fuzzy = entries.filter(entry => entry.fuzzy).length;
+      const reviewed = entries.filter(entry => entry.translation && !entry.fuzzy).length;
+      console.log(
+        chalk.green('✓') +
+        ` ${chalk.cyan(language)} → ${chalk.gray(path.relative(process.cwd(), filePath))} ` +
+        chalk.gray(`(${entries.length} segments, ${reviewed} reviewed, ${fuzzy} machine-translated)`)
+      );
+    }
+  } catch (error) {
+    spinner.fail(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+export async function importPoCommand(
+  files: string[],
+  options: { config?: string }
+): Promise<void> {
+  let spinner = ora('Loading configuration...').start();
+
+  try {
+    const config = await loadConfig(options.config);
+    spinner.succeed('Configuration loaded');
+
+    const reviewStore = new ReviewStore(config.review?.directory || 'reviewed-translations');
+
+    for (const file of files) {
+      try {
+        const document = parsePo(await fs.readFile(file, 'utf-8'));
+        const declared = document.headers.Language || path.basename(file, path.extname(file));
+        const language = findTargetLanguage(config, declared);
+        if (!language) {
+          throw new Error(`"${declared}" is not a target language (${config.targetLanguages.join(', ')})`);
+        }
+
+        const entries: Array<{ id: string; source: string; translation: string }> = [];
+        const rejected: Array<{ id: string; problem: string }> = [];
+
+        // Fuzzy entries are machine suggestions nobody has confirmed yet
+        for (const entry of document.entries) {
+          if (!entry.context || !entry.translation.trim() || entry.fuzzy) {
+            continue;
+          }
+
+          const problem = validateFragment(entry.source, entry.translation);
+          if (problem) {
+            rejected.push({ id: entry.context, problem });
+            continue;
+          }
+          entries.push({ id: entry.context, source: entry.source, translation: entry.translation });
+        }
+
+        const changed = await reviewStore.import(language, entries, 'po');
+        console.log(
+          chalk.green('✓') +
+          ` ${chalk.gray(file)} → ${chalk.cyan(language)} ` +
+          chalk.gray(`(${entries.length} translations, ${changed} new or changed)`)
+        );
+
+        for (const { id, problem } of rejected) {
+          console.log(chalk.red('  ✗') + ` ${chalk.gray(id)} ` + chalk.red(`Rejected: ${problem}`));
+        }
+      } catch (error) {
+        console.log(
+          chalk.red('✗') +
+          ` ${chalk.gray(file)} ` +
+          chalk.red(`Failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        );
+      }
+    }
+
+    console.log(chalk.gray('\nImported translations are applied on the next translate run.'));
+  } catch (error) {
+    spinner.fail(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * msgctxt is the segment id ("<file>:<key>"), so identical source texts on
+ * different pages stay separate entries. Machine translations are exported
+ * as fuzzy so translators see them as suggestions.
+ */
+function toPoEntry(htmlFile: string, segment: ExportedSegment): PoEntry {
+  return {
+    context: getSegmentId(htmlFile, segment.key),
+    source: segment.source,
+    translation: segment.translation || '',
+    reference: htmlFile,
+    fuzzy: segment.translation !== undefined && !segment.reviewed,
+  };
+}
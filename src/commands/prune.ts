@@ -0,0 +1,106 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import inquirer from 'inquirer';
+import { loadConfig, excludeSourceLanguage } from '../utils/config';
+import { CacheManager } from '../utils/cache';
+import { findHtmlFiles, extractPages, detectSourceLanguage } from '../utils/pages';
+import { Translator } from '../core/translator';
+import { HtmlProcessor } from '../core/html-processor';
+import { Pruner, PrunePlan } from '../core/pruner';
+
+export async function pruneCommand(options: {
+  config?: string;
+  dryRun?: boolean;
+  yes?: boolean;
+}): Promise<void> {
+  let spinner = ora('Loading configuration...').start();
+
+  try {
+    const config = await loadConfig(options.config);
+    spinner.succeed('Configuration loaded');
+
+    spinner = ora('Extracting translatable content...').start();
+    const htmlFiles = await findHtmlFiles(config);
+    const { pages, errors } = await extractPages(config, htmlFiles, new HtmlProcessor(config));
+    spinner.succeed(`Extracted segments from ${pages.length} pages`);
+
+    for (const { htmlFile, message } of errors) {
+      console.log(chalk.red('✗') + ` ${chalk.gray(htmlFile)} ` + chalk.red(`Failed: ${message}`));
+    }
+    if (errors.length > 0) {
+      console.warn(chalk.yellow('⚠️  Some pages could not be extracted; the cache is left untouched'));
+    }
+
+    // The cache is keyed by source language, so resolve it the same way translate does
+    if (!config.sourceLanguage) {
+      config.sourceLanguage = detectSourceLanguage(pages);
+    }
+    excludeSourceLanguage(config);
+
+    const cacheManager = new CacheManager(
+      config.cache?.directory || '.translator-cache',
+      config.cache?.enabled !== false
+    );
+    const pruner = new Pruner(config, new Translator(config, { cacheManager }));
+    const plan = await pruner.plan(htmlFiles, pages, errors.length === 0);
+
+    if (!displayPrunePlan(plan) || options.dryRun) {
+      return;
+    }
+
+    if (!options.yes) {
+      if (!process.stdin.isTTY) {
+        console.log(chalk.gray('\nRun with --yes to delete these.'));
+        return;
+      }
+
+      const { confirmed } = await inquirer.prompt([{
+        type: 'confirm',
+        name: 'confirmed',
+        message: 'Delete the files and cache entries listed above?',
+        default: false,
+      }]);
+      if (!confirmed) {
+        return;
+      }
+    }
+
+    spinner = ora('Pruning...').start();
+    await pruner.apply(plan, pages);
+    await cacheManager.flush();
+    spinner.succeed(formatPruneResult(plan));
+
+  } catch (error) {
+    spinner.fail(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * List the orphans of a plan. Returns false when there is nothing to prune.
+ */
+export function displayPrunePlan(plan: PrunePlan): boolean {
+  const cacheLanguages = Object.entries(plan.cacheEntries);
+
+  if (plan.files.length === 0 && cacheLanguages.length === 0) {
+    console.log(chalk.green('✓ Nothing to prune'));
+    return false;
+  }
+
+  if (plan.files.length > 0) {
+    console.log(chalk.cyan(`\nOutput files without a source (${plan.files.length}):`));
+    plan.files.forEach(file => console.log(chalk.gray(`  - ${file}`)));
+  }
+
+  if (cacheLanguages.length > 0) {
+    console.log(chalk.cyan('\nCache entries no current segment uses:'));
+    cacheLanguages.forEach(([language, count]) => console.log(chalk.gray(`  - ${language}: ${count}`)));
+  }
+
+  return true;
+}
+
+export function formatPruneResult(plan: PrunePlan): string {
+  const entries = Object.values(plan.cacheEntries).reduce((sum, count) => sum + count, 0);
+  return `Removed ${plan.files.length} files and ${entries} cache entries`;
+}
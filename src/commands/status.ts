@@ -0,0 +1,159 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { PageStatus } from '../types';
+import { loadConfig, excludeSourceLanguage } from '../utils/config';
+import { CacheManager } from '../utils/cache';
+import { findHtmlFiles, extractPages, detectSourceLanguage, buildSiteMapping } from '../utils/pages';
+import { ReviewStore } from '../utils/review-store';
+import { OverrideManager } from '../utils/overrides';
+import { Translator } from '../core/translator';
+import { HtmlProcessor } from '../core/html-processor';
+
+const STATUS_SYMBOLS: Record<PageStatus, string> = {
+  'up-to-date': chalk.green('✓'),
+  stale: chalk.yellow('~'),
+  missing: chalk.red('✗'),
+};
+
+/**
+ * Show which localized pages are missing, stale or up to date, without API
+ * calls. A page is stale when one of its segments has no current
+ * translation (reviewed, overridden or cached), or when its source was
+ * modified after the output was written.
+ */
+export async function statusCommand(options: {
+  config?: string;
+  json?: boolean;
+}): Promise<void> {
+  // JSON output goes to stdout for dashboards, so no progress output then
+  let spinner = options.json ? null : ora('Loading configuration...').start();
+
+  try {
+    const config = await loadConfig(options.config);
+    spinner?.succeed('Configuration loaded');
+
+    spinner = options.json ? null : ora('Extracting translatable content...').start();
+    const cacheManager = new CacheManager(
+      config.cache?.directory || '.translator-cache',
+      config.cache?.enabled !== false
+    );
+    const overrides = new OverrideManager(config.overrides?.directory || 'translation-overrides');
+    const translator = new Translator(config, { cacheManager, overrides });
+    const reviewStore = new ReviewStore(config.review?.directory || 'reviewed-translations');
+    const htmlProcessor = new HtmlProcessor(config);
+    htmlProcessor.setScopeSelectors(await overrides.getSelectors(config.targetLanguages));
+
+    const htmlFiles = await findHtmlFiles(config);
+    const { pages, errors } = await extractPages(config, htmlFiles, htmlProcessor);
+    spinner?.succeed(`Extracted segments from ${pages.length} pages`);
+
+    // The cache is keyed by source language, so resolve it the same way translate does
+    if (!config.sourceLanguage) {
+      config.sourceLanguage = detectSourceLanguage(pages);
+    }
+    excludeSourceLanguage(config);
+
+    const { siteMapping, siteScopes } = buildSiteMapping(pages);
+    const matrix: Record<string, Record<string, PageStatus>> = {};
+    const summary: Record<string, Record<PageStatus, number>> = {};
+
+    for (const language of config.targetLanguages) {
+      const reviewed = await reviewStore.resolve(siteMapping, language);
+      const estimate = await translator.estimateTranslation(
+        Array.from(reviewed.remaining.values()),
+        language,
+        reviewed.remaining,
+        siteScopes
+      );
+      const untranslated = new Set(estimate.files);
+      const counts: Record<PageStatus, number> = { 'up-to-date': 0, stale: 0, missing: 0 };
+      summary[language] = counts;
+
+      for (const page of pages) {
+        const status = await getPageStatus(
+          page.sourcePath,
+          path.join(config.outputDir, language, page.htmlFile),
+          untranslated.has(page.htmlFile.split(path.sep).join('/'))
+        );
+        matrix[page.htmlFile] = { ...matrix[page.htmlFile], [language]: status };
+        counts[status]++;
+      }
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        sourceLanguage: config.sourceLanguage,
+        languages: config.targetLanguages,
+        files: matrix,
+        summary,
+        errors: errors.map(({ htmlFile, message }) => ({ file: htmlFile, message })),
+      }, null, 2));
+      return;
+    }
+
+    for (const { htmlFile, message } of errors) {
+      console.log(chalk.red('✗') + ` ${chalk.gray(htmlFile)} ` + chalk.red(`Failed: ${message}`));
+    }
+
+    displayMatrix(matrix, config.targetLanguages);
+    displaySummary(summary);
+
+  } catch (error) {
+    if (options.json) {
+      console.error(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }));
+    } else {
+      spinner?.fail(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    process.exit(1);
+  }
+}
+
+async function getPageStatus(sourcePath: string, targetPath: string, untranslated: boolean): Promise<PageStatus> {
+  if (!await fs.pathExists(targetPath)) {
+    return 'missing';
+  }
+  if (untranslated) {
+    return 'stale';
+  }
+
+  const [source, target] = await Promise.all([fs.stat(sourcePath), fs.stat(targetPath)]);
+  return source.mtimeMs > target.mtimeMs ? 'stale' : 'up-to-date';
+}
+
+function displayMatrix(matrix: Record<string, Record<string, PageStatus>>, languages: string[]): void {
+  const files = Object.keys(matrix).sort((a, b) => a.localeCompare(b));
+  const fileWidth = Math.max(4, ...files.map(file => file.length));
+  const widths = languages.map(language => Math.max(language.length, 1));
+
+  console.log(
+    '\n' + chalk.bold('Page'.padEnd(fileWidth)) + '  ' +
+    languages.map((language, i) => chalk.bold(language.padEnd(widths[i] as number))).join('  ')
+  );
+
+  for (const file of files) {
+    const cells = languages.map((language, i) => {
+      const status = matrix[file]?.[language] as PageStatus;
+      // Pad on the plain symbol, since color codes have no width
+      return STATUS_SYMBOLS[status] + ' '.repeat((widths[i] as number) - 1);
+    });
+    console.log(chalk.gray(file.padEnd(fileWidth)) + '  ' + cells.join('  '));
+  }
+
+  console.log(chalk.gray(
+    `\n${STATUS_SYMBOLS['up-to-date']} up to date  ${STATUS_SYMBOLS.stale} stale  ${STATUS_SYMBOLS.missing} missing`
+  ));
+}
+
+function displaySummary(summary: Record<string, Record<PageStatus, number>>): void {
+  console.log(chalk.cyan('\nPer language:'));
+  for (const [language, counts] of Object.entries(summary)) {
+    console.log(
+      chalk.white(`  ${language}: `) +
+      chalk.green(`${counts['up-to-date']} up to date`) + ', ' +
+      chalk.yellow(`${counts.stale} stale`) + ', ' +
+      chalk.red(`${counts.missing} missing`)
+    );
+  }
+}
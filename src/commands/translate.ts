@@ -1,30 +1,71 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { glob } from 'glob';
 import chalk from 'chalk';
 import ora from 'ora';
-import pLimit from 'p-limit';
 import boxen from 'boxen';
-import { TranslatorConfig, FileTranslationResult, TranslationStats } from '../types';
-import { loadConfig } from '../utils/config';
+import {
+  TranslatorConfig,
+  FileTranslationResult,
+  TranslationStats,
+  ExtractedPage,
+  TranslationEstimate,
+  UnfinishedPage,
+  ReportedResult,
+  TranslationReport,
+} from '../types';
+import { loadConfig, excludeSourceLanguage } from '../utils/config';
 import { CacheManager } from '../utils/cache';
+import { deployAssets, findAssets } from '../utils/assets';
+import { findHtmlFiles, extractPages, detectSourceLanguage, getSegmentId, buildSiteMapping } from '../utils/pages';
+import { ReviewStore } from '../utils/review-store';
+import { OverrideManager } from '../utils/overrides';
+import { getReportPath, loadReport, selectPendingPages, mergeReports } from '../utils/report';
+import { watchDirectory } from '../utils/watch';
 import { Translator } from '../core/translator';
 import { HtmlProcessor } from '../core/html-processor';
+import { SitemapGenerator } from '../core/sitemap-generator';
+import { getModelPricing } from '../core/models';
+import { Pruner } from '../core/pruner';
+import { createProvider } from '../core/providers';
+import { displayPrunePlan, formatPruneResult } from './prune';
+
+// Quiet period after the last file event before a rebuild starts
+const WATCH_DEBOUNCE_MS = 500;
 
 export async function translateCommand(options: {
   config?: string;
   dryRun?: boolean;
   clearCache?: boolean;
   verbose?: boolean;
+  maxCost?: string;
+  retryFailed?: boolean;
+  resume?: boolean;
+  prune?: boolean;
+  watch?: boolean;
 }): Promise<void> {
   const startTime = Date.now();
   let spinner = ora('Loading configuration...').start();
+  // Writes the cache and a partial report once translation has started
+  let saveProgress: ((quiet: boolean) => Promise<void>) | undefined;
 
   try {
     // Load configuration
     const config = await loadConfig(options.config);
     spinner.succeed('Configuration loaded');
 
+    if (options.maxCost !== undefined) {
+      const maxCost = Number(options.maxCost);
+      if (!Number.isFinite(maxCost) || maxCost <= 0) {
+        throw new Error(`Invalid --max-cost: ${options.maxCost}. Use a positive amount in USD (e.g. 5 or 0.50).`);
+      }
+      config.budget = { ...config.budget, maxCost };
+    }
+
+    const model = config.openaiModel || 'gpt-4o-mini';
+    if (config.budget?.maxCost !== undefined && !getModelPricing(model, config.pricing)) {
+      throw new Error(`Cannot enforce a budget: no pricing known for model "${model}". Add it under "pricing".`);
+    }
+
     // Initialize cache
     const cacheManager = new CacheManager(
       config.cache?.directory || '.translator-cache',
@@ -41,11 +82,7 @@ export async function translateCommand(options: {
 
     // Find all HTML files
     spinner = ora('Scanning for HTML files...').start();
-    const sourceDir = path.resolve(config.sourceDir);
-    const htmlFiles = await glob('**/*.html', {
-      cwd: sourceDir,
-      ignore: config.ignorePaths || [],
-    });
+    const htmlFiles = await findHtmlFiles(config);
 
     if (htmlFiles.length === 0) {
       spinner.fail('No HTML files found');
@@ -54,201 +91,557 @@ export async function translateCommand(options: {
 
     spinner.succeed(`Found ${htmlFiles.length} HTML files`);
 
-    // Dry run mode
-    if (options.dryRun) {
-      await performDryRun(htmlFiles, config);
-      return;
+    // Retry or resume: only the (file, language) pairs the previous report left unfinished
+    const rerun = options.resume || options.retryFailed;
+    if (rerun && options.prune) {
+      // Pruning needs every page of the site, a partial run extracts only some
+      throw new Error('--prune cannot be combined with --retry-failed or --resume.');
+    }
+    if (options.watch && (rerun || options.dryRun)) {
+      throw new Error('--watch cannot be combined with --dry-run, --retry-failed or --resume.');
+    }
+    const previousReport = rerun ? await loadReport(config.outputDir, config.sourceDir) : null;
+    if (rerun && !previousReport) {
+      throw new Error(`No previous report found at ${getReportPath(config.outputDir)}. Run a full translation first.`);
+    }
+
+    const mode = options.resume ? 'unfinished' : 'failed';
+    const selection = previousReport
+      ? selectPendingPages(previousReport, htmlFiles, config.targetLanguages, mode)
+      : undefined;
+
+    if (selection) {
+      const pairs = Array.from(selection.values()).reduce((sum, files) => sum + files.size, 0);
+      if (pairs === 0) {
+        console.log(chalk.green(`✓ Nothing to ${options.resume ? 'resume' : 'retry'}: the previous run left no ${mode} pages`));
+        return;
+      }
+      console.log(chalk.cyan(`Re-running ${pairs} file/language pairs from the previous report`));
     }
 
-    // Initialize translator
-    const translator = new Translator(config);
+    // Initialize translator; a dry run needs no provider (and no API key)
+    const overrides = new OverrideManager(config.overrides?.directory || 'translation-overrides');
+    const translator = new Translator(config, {
+      provider: options.dryRun ? undefined : createProvider(config),
+      cacheManager,
+      overrides,
+    });
+    const reviewStore = new ReviewStore(config.review?.directory || 'reviewed-translations');
     const htmlProcessor = new HtmlProcessor(config);
+    htmlProcessor.setLocalizedPages(htmlFiles, await findAssets(config));
+    htmlProcessor.setScopeSelectors(await overrides.getSelectors(config.targetLanguages));
+
+    // Collection pass: extract every page once, independent of language
+    spinner = ora('Extracting translatable content...').start();
+    const selectedFiles = selection
+      ? htmlFiles.filter(file => Array.from(selection.values()).some(files => files.has(file)))
+      : htmlFiles;
+    const { pages, errors: extractionErrors } = await extractPages(config, selectedFiles, htmlProcessor);
+
+    const uniqueSegments = new Set(pages.flatMap(page => Array.from(page.mapping.values())));
+    spinner.succeed(
+      `Extracted ${uniqueSegments.size} unique segments from ${pages.length} pages`
+    );
 
-    // Set up parallel processing
-    const limit = pLimit(config.parallel?.limit || 5);
+    // Source language: configured, or the language most pages declare
+    if (!config.sourceLanguage) {
+      config.sourceLanguage = detectSourceLanguage(pages);
+      console.log(chalk.gray(`Detected source language: ${config.sourceLanguage}`));
+    }
+
+    const skippedLanguages = excludeSourceLanguage(config);
+    if (skippedLanguages.length > 0) {
+      console.warn(chalk.yellow(
+        `⚠️  Skipping target language ${skippedLanguages.join(', ')}: same as the source language`
+      ));
+    }
+
+    if (config.targetLanguages.length === 0) {
+      throw new Error('No target languages left to translate after excluding the source language.');
+    }
+
+    // Dry run mode
+    if (options.dryRun) {
+      await performDryRun(pages, extractionErrors.length, config, translator, reviewStore, selection);
+      if (options.prune) {
+        displayPrunePlan(await new Pruner(config, translator).plan(htmlFiles, pages, extractionErrors.length === 0));
+      }
+      return;
+    }
 
     // Statistics
     const stats: TranslationStats = {
-      totalFiles: htmlFiles.length * config.targetLanguages.length,
+      totalFiles: selection
+        ? config.targetLanguages.reduce((sum, language) => sum + (selection.get(language)?.size || 0), 0)
+        : htmlFiles.length * config.targetLanguages.length,
       successfulFiles: 0,
       failedFiles: 0,
+      skippedFiles: 0,
       totalTokens: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      cachedPromptTokens: 0,
       estimatedCost: 0,
+      costByLanguage: {},
       duration: 0,
     };
 
-    const results: FileTranslationResult[] = [];
+    const results: ReportedResult[] = [];
+    const unfinished: UnfinishedPage[] = [];
 
-    // Process each file for each language
-    console.log(chalk.cyan('\n📝 Starting translation process...\n'));
+    const recordResult = (result: FileTranslationResult, htmlFile: string) => {
+      results.push({ ...result, file: htmlFile });
 
-    const tasks = [];
-    for (const htmlFile of htmlFiles) {
+      if (result.success) {
+        stats.successfulFiles++;
+      } else {
+        stats.failedFiles++;
+      }
+
+      // Update progress
+      const progress = Math.round(
+        ((stats.successfulFiles + stats.failedFiles + stats.skippedFiles) / stats.totalFiles) * 100
+      );
+
+      logResult(result, htmlFile, progress);
+    };
+
+    // Record pages that could not be read or parsed
+    for (const { htmlFile, sourcePath, message } of extractionErrors) {
       for (const targetLanguage of config.targetLanguages) {
-        tasks.push(
-          limit(async () => {
-            const result = await translateFile(
-              htmlFile,
-              targetLanguage,
-              sourceDir,
-              config,
-              translator,
-              htmlProcessor,
-              cacheManager,
-              options.verbose || false
-            );
-            results.push(result);
-
-            if (result.success) {
-              stats.successfulFiles++;
-              if (result.tokensUsed) {
-                stats.totalTokens += result.tokensUsed;
-              }
-            } else {
-              stats.failedFiles++;
-            }
-
-            // Update progress
-            const progress = Math.round(
-              ((stats.successfulFiles + stats.failedFiles) / stats.totalFiles) * 100
-            );
+        if (selection && !selection.get(targetLanguage)?.has(htmlFile)) continue;
+        recordResult({
+          source: sourcePath,
+          target: path.join(config.outputDir, targetLanguage, htmlFile),
+          language: targetLanguage,
+          success: false,
+          error: message,
+        }, htmlFile);
+      }
+    }
+
+    // Cache and report are written after every language and on Ctrl+C, so an
+    // interrupted run can be picked up with --resume
+    saveProgress = async (quiet: boolean) => {
+      await cacheManager.flush();
+      updateUsageStats(stats, translator, startTime);
+      await saveReport(
+        {
+          timestamp: new Date().toISOString(),
+          stats,
+          results,
+          validationFailures: translator.getValidationFailures(),
+          remaining: unfinished,
+        },
+        previousReport,
+        config.outputDir,
+        quiet
+      );
+    };
+    const onInterrupt = () => {
+      spinner.stop();
+      console.warn(chalk.yellow('\n⚠️  Interrupted: saving progress (continue with --resume)'));
+      saveProgress?.(false).finally(() => process.exit(130));
+    };
+    process.once('SIGINT', onInterrupt);
+
+    // Process each language: translate unique segments once, then fan out to every page
+    console.log(chalk.cyan('\n📝 Starting translation process...\n'));
 
-            if (result.success) {
-              console.log(
-                chalk.green('✓') +
-                ` ${chalk.gray(htmlFile)} → ${chalk.cyan(targetLanguage)} ` +
-                chalk.gray(`(${progress}%)`)
-              );
-            } else {
-              console.log(
-                chalk.red('✗') +
-                ` ${chalk.gray(htmlFile)} → ${chalk.cyan(targetLanguage)} ` +
-                chalk.red(`Failed: ${result.error}`)
-              );
-            }
-          })
+    for (const targetLanguage of config.targetLanguages) {
+      const languagePages = getLanguagePages(pages, targetLanguage, selection);
+      if (languagePages.length === 0) continue;
+
+      let pageTranslations: Map<string, Record<string, string>> | null = null;
+      let languageError: string | undefined;
+
+      try {
+        pageTranslations = await translateLanguage(
+          languagePages,
+          targetLanguage,
+          translator,
+          reviewStore,
+          options.verbose || false
         );
+      } catch (error) {
+        languageError = error instanceof Error ? error.message : 'Unknown error';
+      }
+
+      // Pages with segments whose request failed, or that were left out once
+      // the budget ran out, are not written
+      const failedSegments = translator.getFailedSegments(targetLanguage);
+      const skippedSegments = new Set(translator.getBudgetSkippedSegments(targetLanguage));
+
+      for (const page of languagePages) {
+        const targetPath = path.join(config.outputDir, targetLanguage, page.htmlFile);
+        const pageError = languageError ?? getPageError(page, failedSegments);
+
+        if (pageError !== undefined) {
+          recordResult({
+            source: page.sourcePath,
+            target: targetPath,
+            language: targetLanguage,
+            success: false,
+            error: pageError,
+          }, page.htmlFile);
+          continue;
+        }
+
+        if (Array.from(page.mapping.keys()).some(key =>
+          skippedSegments.has(getSegmentId(page.htmlFile, key))
+        )) {
+          unfinished.push({ file: page.htmlFile, language: targetLanguage });
+          stats.skippedFiles++;
+          console.log(
+            chalk.yellow('–') +
+            ` ${chalk.gray(page.htmlFile)} → ${chalk.cyan(targetLanguage)} ` +
+            chalk.yellow('Skipped: budget reached')
+          );
+          continue;
+        }
+
+        const result = await writeTranslatedPage(
+          page,
+          targetLanguage,
+          targetPath,
+          pageTranslations?.get(page.htmlFile) || {},
+          htmlProcessor
+        );
+        recordResult(result, page.htmlFile);
+      }
+
+      await saveProgress(true);
+    }
+
+    // Stylesheets, scripts, images and fonts so each language tree renders
+    if (config.assets?.strategy !== 'none') {
+      spinner = ora('Deploying assets...').start();
+      try {
+        const written = await deployAssets(config, config.targetLanguages);
+        spinner.succeed(`Assets deployed (${config.assets?.strategy || 'copy'}, ${written} files updated)`);
+      } catch (error) {
+        spinner.fail(`Asset deployment failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
     }
 
-    // Wait for all translations to complete
-    await Promise.all(tasks);
+    // Source-language copies carrying the same hreflang set go to the output root
+    if (config.seo?.injectHreflang !== false && config.seo?.hreflangInSource) {
+      await writeSourcePages(pages, config.outputDir, htmlProcessor);
+    }
+
+    // Sitemap listing every source and localized URL. Pairs run again were
+    // not successful before, so earlier results only add pages
+    if (config.seo?.sitemap?.enabled !== false) {
+      const failedPages = new Set(extractionErrors.map(error => error.htmlFile));
+      await writeSitemap(
+        htmlFiles.filter(file => !failedPages.has(file)),
+        [...(previousReport?.results || []), ...results],
+        config,
+        htmlProcessor
+      );
+    }
+
+    // Localized files and cache entries whose source is gone
+    if (options.prune) {
+      const pruner = new Pruner(config, translator);
+      const plan = await pruner.plan(htmlFiles, pages, extractionErrors.length === 0);
+      if (displayPrunePlan(plan)) {
+        await pruner.apply(plan, pages);
+        console.log(chalk.green(`✓ ${formatPruneResult(plan)}`));
+      }
+    }
 
     // Calculate final statistics
-    stats.duration = (Date.now() - startTime) / 1000;
-    stats.estimatedCost = translator.estimateCost();
+    updateUsageStats(stats, translator, startTime);
+
+    if (stats.totalTokens > 0 && !getModelPricing(model, config.pricing)) {
+      console.warn(chalk.yellow(`⚠️  No pricing known for model "${model}". Add it under "pricing" to see costs.`));
+    }
 
     // Display results
     displayResults(stats);
 
-    // Save translation report
-    await saveReport(results, stats, config.outputDir);
+    const validationFailures = translator.getValidationFailures();
+    if (validationFailures.length > 0) {
+      console.warn(chalk.yellow(
+        `⚠️  ${validationFailures.length} segments kept their source text: the translation broke their markup (see report)`
+      ));
+      if (options.verbose) {
+        for (const failure of validationFailures) {
+          console.warn(chalk.gray(`  [${failure.language}] ${failure.segments.join(', ')}: ${failure.reason}`));
+        }
+      }
+    }
+
+    if (translator.isBudgetExhausted()) {
+      console.warn(chalk.yellow(
+        `⚠️  Budget of $${config.budget?.maxCost} reached: ${unfinished.length} pages were not translated ` +
+        '(listed under "remaining" in the report)'
+      ));
+    }
+
+    // Persist newly translated segments and save the translation report
+    await saveProgress(false);
+    process.removeListener('SIGINT', onInterrupt);
+
+    if (options.watch) {
+      await watchSource(config, translator, cacheManager, reviewStore, htmlProcessor, options.verbose || false);
+    }
 
   } catch (error) {
     spinner.fail(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    // Keep what was translated before the failure
+    await saveProgress?.(false).catch(() => undefined);
     process.exit(1);
   }
 }
 
-async function translateFile(
-  htmlFile: string,
+/**
+ * Fill in duration, token and cost figures from the translator.
+ */
+function updateUsageStats(stats: TranslationStats, translator: Translator, startTime: number): void {
+  const usage = translator.getUsage();
+  stats.duration = (Date.now() - startTime) / 1000;
+  stats.totalTokens = translator.getTokensUsed();
+  stats.promptTokens = usage.promptTokens;
+  stats.completionTokens = usage.completionTokens;
+  stats.cachedPromptTokens = usage.cachedPromptTokens;
+  stats.estimatedCost = translator.estimateCost();
+  stats.costByLanguage = translator.getCostBreakdown();
+}
+
+/**
+ * Translate the segments of all pages for one language. Segments shared by
+ * several pages (navigation, footer, ...) are sent to the API only once.
+ */
+async function translateLanguage(
+  pages: ExtractedPage[],
   targetLanguage: string,
-  sourceDir: string,
-  config: TranslatorConfig,
   translator: Translator,
-  htmlProcessor: HtmlProcessor,
-  cacheManager: CacheManager,
+  reviewStore: ReviewStore,
   verbose: boolean
-): Promise<FileTranslationResult> {
-  const sourcePath = path.join(sourceDir, htmlFile);
-  const targetPath = path.join(
-    config.outputDir,
+): Promise<Map<string, Record<string, string>>> {
+  const { siteMapping, siteScopes } = buildSiteMapping(pages);
+
+  // Human-reviewed translations are authoritative and never sent to the API
+  const reviewed = await reviewStore.resolve(siteMapping, targetLanguage);
+
+  const segmentStats = { cached: 0, translated: 0, overridden: 0 };
+  const machineTranslations = await translator.translateTexts(
+    Array.from(reviewed.remaining.values()),
     targetLanguage,
-    htmlFile
+    reviewed.remaining,
+    segmentStats,
+    siteScopes
   );
+  const siteTranslations = { ...machineTranslations, ...reviewed.translations };
+
+  if (verbose) {
+    console.log(chalk.blue(
+      `  [${targetLanguage}] ${siteMapping.size} segments: ${Object.keys(reviewed.translations).length} reviewed, ` +
+      `${segmentStats.overridden} overridden, ${segmentStats.cached} cached, ${segmentStats.translated} translated`
+    ));
+    if (reviewed.stale.length > 0) {
+      console.log(chalk.yellow(
+        `  [${targetLanguage}] ${reviewed.stale.length} reviewed translations ignored: source text changed since review`
+      ));
+    }
+  }
 
-  try {
-    // Read source file
-    const htmlContent = await fs.readFile(sourcePath, 'utf-8');
-
-    // Check cache
-    const cachedTranslation = await cacheManager.get(
-      htmlFile,
-      htmlContent,
-      targetLanguage
-    );
+  // Fan translations back out to each page's own mapping keys
+  const pageTranslations = new Map<string, Record<string, string>>();
+  for (const page of pages) {
+    const translations: Record<string, string> = {};
+    for (const key of page.mapping.keys()) {
+      const translated = siteTranslations[getSegmentId(page.htmlFile, key)];
+      if (translated !== undefined) {
+        translations[key] = translated;
+      }
+    }
+    pageTranslations.set(page.htmlFile, translations);
+  }
 
-    if (cachedTranslation) {
-      // Use cached translation
-      await fs.ensureDir(path.dirname(targetPath));
-      await fs.writeFile(targetPath, cachedTranslation, 'utf-8');
+  return pageTranslations;
+}
 
-      if (verbose) {
-        console.log(chalk.blue(`  [CACHE] ${htmlFile} → ${targetLanguage}`));
-      }
+/**
+ * The error of the first failed request among the segments of `page`, if any.
+ */
+function getPageError(page: ExtractedPage, failedSegments: Map<string, string>): string | undefined {
+  for (const key of page.mapping.keys()) {
+    const error = failedSegments.get(getSegmentId(page.htmlFile, key));
+    if (error !== undefined) return error;
+  }
+  return undefined;
+}
 
-      return {
-        source: sourcePath,
-        target: targetPath,
-        language: targetLanguage,
-        success: true,
-      };
-    }
+/**
+ * The pages to translate into `language`: all of them, or those selected
+ * for a retry or resume.
+ */
+function getLanguagePages(
+  pages: ExtractedPage[],
+  language: string,
+  selection?: Map<string, Set<string>>
+): ExtractedPage[] {
+  return selection ? pages.filter(page => selection.get(language)?.has(page.htmlFile)) : pages;
+}
+
+/**
+ * Keep running after the initial translation and retranslate the pages of
+ * sourceDir that change, for every target language. The translator and its
+ * cache are reused between rebuilds, so unchanged segments cost nothing.
+ * Resolves when the process is interrupted.
+ */
+async function watchSource(
+  config: TranslatorConfig,
+  translator: Translator,
+  cacheManager: CacheManager,
+  reviewStore: ReviewStore,
+  htmlProcessor: HtmlProcessor,
+  verbose: boolean
+): Promise<void> {
+  const sourceDir = path.resolve(config.sourceDir);
+
+  // Output and cache written inside sourceDir must not trigger rebuilds
+  const excluded = [
+    path.resolve(config.outputDir),
+    path.resolve(config.cache?.directory || '.translator-cache'),
+  ];
+
+  const rebuild = async (changedFiles: string[]) => {
+    const startTime = Date.now();
+    const costBefore = translator.estimateCost();
+
+    try {
+      // Globbing again applies ignorePaths like a full run and picks up new pages
+      const htmlFiles = await findHtmlFiles(config);
+      htmlProcessor.setLocalizedPages(htmlFiles, await findAssets(config));
+
+      const changed = new Set(changedFiles);
+      const changedPages = htmlFiles.filter(file => {
+        const absolute = path.join(sourceDir, file);
+        return changed.has(file.split(path.sep).join('/')) &&
+          !excluded.some(dir => absolute === dir || absolute.startsWith(dir + path.sep));
+      });
+      if (changedPages.length === 0) return;
+
+      console.log(chalk.cyan(`\n🔄 ${changedPages.length} changed ${changedPages.length === 1 ? 'page' : 'pages'}`));
+      const { pages, errors } = await extractPages(config, changedPages, htmlProcessor);
+      for (const { htmlFile, message } of errors) {
+        console.log(chalk.red('✗') + ` ${chalk.gray(htmlFile)} ` + chalk.red(`Failed: ${message}`));
+      }
 
-    // Extract translatable content
-    const { translatable, mapping, processedHtml } = await htmlProcessor.extractTranslatableContent(htmlContent);
+      for (const targetLanguage of config.targetLanguages) {
+        const pageTranslations = await translateLanguage(pages, targetLanguage, translator, reviewStore, verbose);
+        const failedSegments = translator.getFailedSegments(targetLanguage);
+        const skippedSegments = new Set(translator.getBudgetSkippedSegments(targetLanguage));
+
+        for (const page of pages) {
+          const targetPath = path.join(config.outputDir, targetLanguage, page.htmlFile);
+          const pageError = getPageError(page, failedSegments);
+          if (pageError !== undefined) {
+            logResult(
+              { source: page.sourcePath, target: targetPath, language: targetLanguage, success: false, error: pageError },
+              page.htmlFile
+            );
+            continue;
+          }
+
+          if (Array.from(page.mapping.keys()).some(key => skippedSegments.has(getSegmentId(page.htmlFile, key)))) {
+            console.log(
+              chalk.yellow('–') +
+              ` ${chalk.gray(page.htmlFile)} → ${chalk.cyan(targetLanguage)} ` +
+              chalk.yellow('Skipped: budget reached')
+            );
+            continue;
+          }
+
+          const result = await writeTranslatedPage(
+            page,
+            targetLanguage,
+            targetPath,
+            pageTranslations.get(page.htmlFile) || {},
+            htmlProcessor
+          );
+          logResult(result, page.htmlFile);
+        }
+      }
 
-    if (translatable.length === 0) {
-      // No content to translate, but still apply language changes
-      const translatedHtml = await htmlProcessor.applyTranslations(
-        processedHtml,
-        {},
-        targetLanguage
-      );
+      if (config.seo?.injectHreflang !== false && config.seo?.hreflangInSource) {
+        await writeSourcePages(pages, config.outputDir, htmlProcessor);
+      }
 
-      await fs.ensureDir(path.dirname(targetPath));
-      await fs.writeFile(targetPath, translatedHtml, 'utf-8');
-
-      return {
-        source: sourcePath,
-        target: targetPath,
-        language: targetLanguage,
-        success: true,
-      };
+      await cacheManager.flush();
+      console.log(chalk.gray(
+        `Rebuilt in ${((Date.now() - startTime) / 1000).toFixed(1)}s, ` +
+        `cost $${(translator.estimateCost() - costBefore).toFixed(4)}`
+      ));
+    } catch (error) {
+      console.log(chalk.red(`✗ Rebuild failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
     }
+  };
 
-    // Translate content
-    const translations = await translator.translateTexts(
-      translatable,
-      targetLanguage,
-      mapping
+  console.log(chalk.cyan(
+    `\n👀 Watching ${path.relative(process.cwd(), sourceDir) || '.'} for changes (Ctrl+C to stop)`
+  ));
+
+  await new Promise<void>(resolve => {
+    const watcher = watchDirectory(sourceDir, rebuild, WATCH_DEBOUNCE_MS);
+    process.once('SIGINT', () => {
+      watcher.close();
+      console.log(chalk.gray('\nStopped watching'));
+      resolve();
+    });
+  });
+}
+
+function logResult(result: FileTranslationResult, htmlFile: string, progress?: number): void {
+  if (result.success) {
+    console.log(
+      chalk.green('✓') +
+      ` ${chalk.gray(htmlFile)} → ${chalk.cyan(result.language)}` +
+      (progress !== undefined ? ' ' + chalk.gray(`(${progress}%)`) : '')
+    );
+  } else {
+    console.log(
+      chalk.red('✗') +
+      ` ${chalk.gray(htmlFile)} → ${chalk.cyan(result.language)} ` +
+      chalk.red(`Failed: ${result.error}`)
     );
+  }
+}
 
+async function writeTranslatedPage(
+  page: ExtractedPage,
+  targetLanguage: string,
+  targetPath: string,
+  translations: Record<string, string>,
+  htmlProcessor: HtmlProcessor
+): Promise<FileTranslationResult> {
+  try {
     // Apply translations to processed HTML (with placeholders)
     const translatedHtml = await htmlProcessor.applyTranslations(
-      processedHtml,
+      page.processedHtml,
       translations,
-      targetLanguage
+      targetLanguage,
+      { placeholders: page.placeholders, pagePath: page.htmlFile }
     );
 
     // Save translated file
     await fs.ensureDir(path.dirname(targetPath));
     await fs.writeFile(targetPath, translatedHtml, 'utf-8');
 
-    // Update cache
-    await cacheManager.set(htmlFile, htmlContent, targetLanguage, translatedHtml);
-
     return {
-      source: sourcePath,
+      source: page.sourcePath,
       target: targetPath,
       language: targetLanguage,
       success: true,
-      tokensUsed: translator.getTokensUsed(),
     };
 
   } catch (error) {
     return {
-      source: sourcePath,
+      source: page.sourcePath,
       target: targetPath,
       language: targetLanguage,
       success: false,
@@ -257,24 +650,167 @@ async function translateFile(
   }
 }
 
+async function writeSourcePages(
+  pages: ExtractedPage[],
+  outputDir: string,
+  htmlProcessor: HtmlProcessor
+): Promise<void> {
+  for (const page of pages) {
+    const targetPath = path.join(outputDir, page.htmlFile);
+    try {
+      const htmlContent = await fs.readFile(page.sourcePath, 'utf-8');
+      await fs.ensureDir(path.dirname(targetPath));
+      await fs.writeFile(targetPath, htmlProcessor.injectSourceHreflang(htmlContent, page.htmlFile), 'utf-8');
+    } catch (error) {
+      console.log(
+        chalk.red('✗') +
+        ` ${chalk.gray(page.htmlFile)} → ${chalk.cyan('source')} ` +
+        chalk.red(`Failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      );
+    }
+  }
+}
+
+async function writeSitemap(
+  pages: string[],
+  results: FileTranslationResult[],
+  config: TranslatorConfig,
+  htmlProcessor: HtmlProcessor
+): Promise<void> {
+  if (!config.seo?.baseUrl) {
+    console.warn(chalk.yellow('⚠️  seo.baseUrl is not configured. Skipping sitemap generation.'));
+    return;
+  }
+
+  // Only pages that were actually written are listed for each language
+  const translatedPages = new Map<string, Set<string>>();
+  for (const language of config.targetLanguages) {
+    translatedPages.set(language, new Set());
+  }
+  for (const result of results) {
+    if (result.success) {
+      const page = path.relative(path.join(config.outputDir, result.language), result.target);
+      translatedPages.get(result.language)?.add(page);
+    }
+  }
+
+  try {
+    const generator = new SitemapGenerator(config);
+    const written = await generator.generate(pages, translatedPages, htmlProcessor.getSourceLanguage());
+    console.log(chalk.gray(`Sitemap saved to: ${written[0]}`));
+  } catch (error) {
+    console.warn(chalk.yellow(
+      `⚠️  Sitemap generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    ));
+  }
+}
+
+/**
+ * Work out per language what a run would send to the API, from the real
+ * extracted segments and the current review, override and cache state.
+ */
 async function performDryRun(
-  htmlFiles: string[],
-  config: TranslatorConfig
+  pages: ExtractedPage[],
+  failedPages: number,
+  config: TranslatorConfig,
+  translator: Translator,
+  reviewStore: ReviewStore,
+  selection?: Map<string, Set<string>>
 ): Promise<void> {
+  const estimates: Array<TranslationEstimate & { language: string; pages: number; reviewed: number }> = [];
+
+  const spinner = ora('Estimating translation work...').start();
+  for (const language of config.targetLanguages) {
+    const languagePages = getLanguagePages(pages, language, selection);
+    if (languagePages.length === 0) continue;
+
+    const { siteMapping, siteScopes } = buildSiteMapping(languagePages);
+    const reviewed = await reviewStore.resolve(siteMapping, language);
+    const estimate = await translator.estimateTranslation(
+      Array.from(reviewed.remaining.values()),
+      language,
+      reviewed.remaining,
+      siteScopes
+    );
+    estimates.push({
+      ...estimate,
+      language,
+      pages: languagePages.length,
+      reviewed: Object.keys(reviewed.translations).length,
+    });
+  }
+  spinner.stop();
+
+  const total = estimates.reduce(
+    (sum, estimate) => ({
+      apiCalls: sum.apiCalls + estimate.apiCalls,
+      promptTokens: sum.promptTokens + estimate.promptTokens,
+      completionTokens: sum.completionTokens + estimate.completionTokens,
+      cost: sum.cost + estimate.cost,
+    }),
+    { apiCalls: 0, promptTokens: 0, completionTokens: 0, cost: 0 }
+  );
+  const uniqueSegments = new Set(pages.flatMap(page => Array.from(page.mapping.values()))).size;
+
   console.log(boxen(
     chalk.yellow.bold('🔍 DRY RUN MODE\n\n') +
-    chalk.white('Files to translate: ') + chalk.cyan(htmlFiles.length) + '\n' +
-    chalk.white('Target languages: ') + chalk.cyan(config.targetLanguages.join(', ')) + '\n' +
-    chalk.white('Total operations: ') + chalk.cyan(htmlFiles.length * config.targetLanguages.length) + '\n\n' +
-    chalk.gray('Estimated tokens: ~') + chalk.yellow((htmlFiles.length * 500 * config.targetLanguages.length).toLocaleString()) + '\n' +
-    chalk.gray('Estimated cost: ~$') + chalk.yellow(((htmlFiles.length * 500 * config.targetLanguages.length * 0.00015) / 1000).toFixed(2)),
+    chalk.white('Pages: ') + chalk.cyan(pages.length) +
+    (failedPages > 0 ? chalk.red(` (${failedPages} could not be read)`) : '') + '\n' +
+    chalk.white('Unique segments: ') + chalk.cyan(uniqueSegments) + '\n' +
+    chalk.white('Target languages: ') + chalk.cyan(config.targetLanguages.join(', ')) + '\n\n' +
+    chalk.white('API calls: ') + chalk.cyan(total.apiCalls.toLocaleString()) + '\n' +
+    chalk.white('Estimated tokens: ~') + chalk.yellow((total.promptTokens + total.completionTokens).toLocaleString()) +
+    chalk.gray(` (${total.promptTokens.toLocaleString()} prompt, ${total.completionTokens.toLocaleString()} completion)`) + '\n' +
+    chalk.white('Estimated cost: ~') + chalk.yellow(`$${total.cost.toFixed(4)}`) + '\n\n' +
+    chalk.gray('Prompts are counted with the model\'s tokenizer. Completions are\n') +
+    chalk.gray('projected from the source text, so totals are approximate.'),
     { padding: 1, margin: 1, borderStyle: 'round' }
   ));
 
+  const model = config.openaiModel || 'gpt-4o-mini';
+  if (total.apiCalls > 0 && !getModelPricing(model, config.pricing)) {
+    console.warn(chalk.yellow(`⚠️  No pricing known for model "${model}". Add it under "pricing" to see costs.`));
+  }
+
+  const maxCost = config.budget?.maxCost;
+  if (maxCost !== undefined && total.cost > maxCost) {
+    console.warn(chalk.yellow(
+      `⚠️  Estimated cost exceeds the budget of $${maxCost}: the run would stop before finishing`
+    ));
+  }
+
+  console.log(chalk.cyan('Per language:'));
+  for (const estimate of estimates) {
+    console.log(
+      chalk.white(`  ${estimate.language}: `) +
+      chalk.cyan(`${estimate.toTranslate} to translate`) +
+      chalk.gray(
+        `, ${estimate.cached} cached, ${estimate.reviewed} reviewed, ${estimate.overridden} overridden` +
+        ` — ${estimate.apiCalls} API calls, ~${(estimate.promptTokens + estimate.completionTokens).toLocaleString()} tokens, `
+      ) +
+      chalk.yellow(`~$${estimate.cost.toFixed(4)}`) +
+      chalk.gray(` (${estimate.files.length}/${estimate.pages} pages)`)
+    );
+  }
+
+  // Pages with at least one segment that is not reviewed, overridden or cached
+  const languagesByFile = new Map<string, string[]>();
+  for (const estimate of estimates) {
+    for (const file of estimate.files) {
+      languagesByFile.set(file, [...(languagesByFile.get(file) || []), estimate.language]);
+    }
+  }
+
+  if (languagesByFile.size === 0) {
+    console.log(chalk.green('\n✓ Everything is up to date; no API calls needed.'));
+    return;
+  }
+
   console.log(chalk.cyan('\nFiles to be translated:'));
-  htmlFiles.forEach(file => {
-    console.log(chalk.gray(`  - ${file}`));
-  });
+  for (const [file, languages] of Array.from(languagesByFile.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    const label = languages.length === estimates.length ? 'all languages' : languages.join(', ');
+    console.log(chalk.gray(`  - ${file || '(shared)'} (${label})`));
+  }
 }
 
 function displayResults(stats: TranslationStats): void {
@@ -285,24 +821,50 @@ function displayResults(stats: TranslationStats): void {
     chalk.white('Total files: ') + chalk.cyan(stats.totalFiles) + '\n' +
     chalk.white('Successful: ') + chalk.green(stats.successfulFiles) + '\n' +
     chalk.white('Failed: ') + chalk.red(stats.failedFiles) + '\n' +
+    (stats.skippedFiles > 0 ? chalk.white('Skipped (budget): ') + chalk.yellow(stats.skippedFiles) + '\n' : '') +
     chalk.white('Success rate: ') + (successRate >= 80 ? chalk.green : chalk.yellow)(`${successRate}%`) + '\n\n' +
     chalk.white('Tokens used: ') + chalk.cyan(stats.totalTokens.toLocaleString()) + '\n' +
+    chalk.white('  Prompt: ') + chalk.cyan(stats.promptTokens.toLocaleString()) +
+    chalk.gray(` (${stats.cachedPromptTokens.toLocaleString()} cached)`) + '\n' +
+    chalk.white('  Completion: ') + chalk.cyan(stats.completionTokens.toLocaleString()) + '\n' +
     chalk.white('Estimated cost: ') + chalk.yellow(`$${stats.estimatedCost.toFixed(4)}`) + '\n' +
+    formatCostBreakdown(stats) +
     chalk.white('Duration: ') + chalk.cyan(`${stats.duration.toFixed(1)}s`),
     { padding: 1, margin: 1, borderStyle: 'round' }
   ));
 }
 
+/**
+ * Cost per language with its most expensive pages; the full per-page
+ * breakdown is in the report.
+ */
+function formatCostBreakdown(stats: TranslationStats): string {
+  const languages = Object.entries(stats.costByLanguage);
+  if (languages.length === 0) return '';
+
+  const lines = languages.map(([language, cost]) => {
+    const topFiles = Object.entries(cost.files)
+      .sort(([, a], [, b]) => b.cost - a.cost)
+      .slice(0, 3)
+      .map(([file, fileCost]) => `${file || '(shared)'} $${fileCost.cost.toFixed(4)}`);
+
+    return chalk.white(`  ${language}: `) + chalk.yellow(`$${cost.cost.toFixed(4)}`) +
+      (topFiles.length > 0 ? chalk.gray(` — ${topFiles.join(', ')}`) : '');
+  });
+
+  return lines.join('\n') + '\n';
+}
+
 async function saveReport(
-  results: FileTranslationResult[],
-  stats: TranslationStats,
-  outputDir: string
+  report: TranslationReport,
+  previousReport: TranslationReport | null,
+  outputDir: string,
+  quiet = false
 ): Promise<void> {
-  const reportPath = path.join(outputDir, 'translation-report.json');
-  const report = {
-    timestamp: new Date().toISOString(),
-    stats,
-    results: results.map(r => ({
+  const reportPath = getReportPath(outputDir);
+  const current: TranslationReport = {
+    ...report,
+    results: report.results.map(r => ({
       ...r,
       source: path.relative(process.cwd(), r.source),
       target: path.relative(process.cwd(), r.target),
@@ -310,6 +872,7 @@ async function saveReport(
   };
 
   await fs.ensureDir(outputDir);
-  await fs.writeJson(reportPath, report, { spaces: 2 });
-  console.log(chalk.gray(`\nReport saved to: ${reportPath}`));
-}
\ No newline at end of file
+  await fs.writeJson(reportPath, previousReport ? mergeReports(previousReport, current) : current, { spaces: 2 });
+  if (quiet) return;
+  console.log(chalk.gray(`\nReport ${previousReport ? 'merged into' : 'saved to'}: ${reportPath}`));
+}
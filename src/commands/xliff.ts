@@ -0,0 +1,159 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadConfig, findTargetLanguage } from '../utils/config';
+import { CacheManager } from '../utils/cache';
+import { getSegmentId } from '../utils/pages';
+import { ReviewStore } from '../utils/review-store';
+import { SegmentExporter } from '../core/segment-exporter';
+import { Translator } from '../core/translator';
+import { validateFragment } from '../core/fragment-validator';
+import { buildXliff, parseXliff, XliffDocument } from '../core/xliff';
+
+export async function exportXliffCommand(options: {
+  config?: string;
+  output?: string;
+  languages?: string;
+}): Promise<void> {
+  let spinner = ora('Loading configuration...').start();
+
+  try {
+    const config = await loadConfig(options.config);
+    spinner.succeed('Configuration loaded');
+
+    spinner = ora('Extracting translatable content...').start();
+    const exporter = new SegmentExporter(config);
+    const errors = await exporter.load();
+    spinner.succeed(`Extracted segments from ${exporter.getPageCount()} pages`);
+
+    for (const { htmlFile, message } of errors) {
+      console.log(chalk.red('✗') + ` ${chalk.gray(htmlFile)} ` + chalk.red(`Failed: ${message}`));
+    }
+
+    const outputDir = path.resolve(options.output || 'xliff');
+    await fs.ensureDir(outputDir);
+
+    for (const language of exporter.getLanguages(options.languages)) {
+      const files = await exporter.getFiles(language);
+
+      const document: XliffDocument = {
+        sourceLanguage: exporter.getSourceLanguage(),
+        targetLanguage: language,
+        files: files.map(file => ({
+          path: file.path,
+          units: file.segments.map(({ key, source, translation, reviewed }) => ({
+            key,
+            source,
+            target: translation,
+            state: reviewed ? 'final' : translation !== undefined ? 'translated' : 'initial',
+          })),
+        })),
+      };
+
+      const filePath = path.join(outputDir, `${language}.xlf`);
+      await fs.writeFile(filePath, buildXliff(document), 'utf-8');
+
+      const units = document.files.flatMap(file => file.units);
+      const translated = units.filter(unit => unit.target !== undefined).length;
+      console.log(
+        chalk.green('✓') +
+        ` ${chalk.cyan(language)} → ${chalk.gray(path.relative(process.cwd(), filePath))} ` +
+        chalk.gray(`(${units.length} segments, ${translated} with translations)`)
+      );
+    }
+  } catch (error) {
+    spinner.fail(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
+
+export async function importXliffCommand(
+  files: string[],
+  options: { config?: string }
+): Promise<void> {
+  let spinner = ora('Loading configuration...').start();
+
+  try {
+    const config = await loadConfig(options.config);
+    spinner.succeed('Configuration loaded');
+
+    const reviewStore = new ReviewStore(config.review?.directory || 'reviewed-translations');
+    const cacheManager = new CacheManager(
+      config.cache?.directory || '.translator-cache',
+      config.cache?.enabled !== false
+    );
+
+    for (const file of files) {
+      try {
+        const document = parseXliff(await fs.readFile(file, 'utf-8'));
+        const language = findTargetLanguage(config, document.targetLanguage);
+        if (!language) {
+          throw new Error(
+            `"${document.targetLanguage}" is not a target language (${config.targetLanguages.join(', ')})`
+          );
+        }
+        const units = document.files.flatMap(({ path: htmlFile, units }) => units.map(unit => ({ htmlFile, unit })));
+
+        // The machine translations the export carried, to tell them from edited ones
+        const translator = new Translator(
+          { ...config, sourceLanguage: config.sourceLanguage || document.sourceLanguage },
+          { cacheManager }
+        );
+        const machine = await translator.getCachedTranslations(
+          units.map(({ unit }) => unit.source),
+          language
+        );
+
+        const entries: Array<{ id: string; source: string; translation: string }> = [];
+        const rejected: Array<{ id: string; problem: string }> = [];
+        let unedited = 0;
+
+        for (const { htmlFile, unit } of units) {
+          // Untouched units carry no reviewed translation
+          if (unit.target === undefined || unit.state === 'initial' || !unit.target.trim()) {
+            continue;
+          }
+          // Nor do machine translations nobody edited or marked as reviewed
+          if (unit.state === 'translated' && unit.target === machine[unit.source]) {
+            unedited++;
+            continue;
+          }
+
+          const id = getSegmentId(htmlFile, unit.key);
+          const problem = validateFragment(unit.source, unit.target);
+          if (problem) {
+            rejected.push({ id, problem });
+            continue;
+          }
+          entries.push({ id, source: unit.source, translation: unit.target });
+        }
+
+        const changed = await reviewStore.import(language, entries, 'xliff');
+        console.log(
+          chalk.green('✓') +
+          ` ${chalk.gray(file)} → ${chalk.cyan(language)} ` +
+          chalk.gray(
+            `(${entries.length} translations, ${changed} new or changed, ` +
+            `${unedited} unedited machine translations skipped)`
+          )
+        );
+
+        for (const { id, problem } of rejected) {
+          console.log(chalk.red('  ✗') + ` ${chalk.gray(id)} ` + chalk.red(`Rejected: ${problem}`));
+        }
+      } catch (error) {
+        console.log(
+          chalk.red('✗') +
+          ` ${chalk.gray(file)} ` +
+          chalk.red(`Failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+        );
+      }
+    }
+
+    console.log(chalk.gray('\nReviewed translations are applied on the next translate run.'));
+  } catch (error) {
+    spinner.fail(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,72 @@
+const TAG_PATTERN = /<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+const PLACEHOLDER_PATTERN = /__SKIP_PLACEHOLDER_\d+__/g;
+
+/**
+ * Compare the markup of a translated fragment with its source. Translation
+ * may only change text: tags must appear with the same names, in the same
+ * order and with the same attributes, and every placeholder token must be
+ * kept. Returns a description of the first difference, or null.
+ *
+ * Tags are compared as written rather than parsed, since an HTML parser
+ * would silently repair a dropped closing tag.
+ */
+export function validateFragment(source: string, translation: string): string | null {
+  const sourceTags = tokenizeTags(source);
+  const translatedTags = tokenizeTags(translation);
+
+  for (let i = 0; i < Math.max(sourceTags.length, translatedTags.length); i++) {
+    const expected = sourceTags[i];
+    const actual = translatedTags[i];
+
+    if (expected === undefined) {
+      return `unexpected tag ${actual}`;
+    }
+    if (actual === undefined) {
+      return `missing tag ${expected}`;
+    }
+    if (expected !== actual) {
+      return `expected tag ${expected}, got ${actual}`;
+    }
+  }
+
+  const sourcePlaceholders: string[] = (source.match(PLACEHOLDER_PATTERN) || []).sort();
+  const translatedPlaceholders: string[] = (translation.match(PLACEHOLDER_PATTERN) || []).sort();
+  if (sourcePlaceholders.join(',') !== translatedPlaceholders.join(',')) {
+    const missing = sourcePlaceholders.filter(token => !translatedPlaceholders.includes(token));
+    return missing.length > 0
+      ? `missing protected content ${missing.join(', ')}`
+      : 'protected content duplicated or invented';
+  }
+
+  return null;
+}
+
+/**
+ * Normalized start and end tags in document order. Attribute order and
+ * quoting style do not matter; names and values do.
+ */
+function tokenizeTags(fragment: string): string[] {
+  const tags: string[] = [];
+
+  for (const match of fragment.matchAll(TAG_PATTERN)) {
+    const [, closing, name, rawAttributes] = match;
+    const tagName = (name as string).toLowerCase();
+
+    if (closing) {
+      tags.push(`</${tagName}>`);
+      continue;
+    }
+
+    const attributes: string[] = [];
+    for (const attribute of (rawAttributes as string).matchAll(ATTRIBUTE_PATTERN)) {
+      const [, attrName, doubleQuoted, singleQuoted, unquoted] = attribute;
+      const value = doubleQuoted ?? singleQuoted ?? unquoted;
+      attributes.push(value === undefined ? (attrName as string).toLowerCase() : `${(attrName as string).toLowerCase()}="${value}"`);
+    }
+
+    tags.push(`<${[tagName, ...attributes.sort()].join(' ')}>`);
+  }
+
+  return tags;
+}
@@ -1,10 +1,42 @@
 import * as cheerio from 'cheerio';
 import { TranslatorConfig } from '../types';
+import { getPageUrl, getXDefaultUrl } from '../utils/urls';
+import { LinkRewriter } from './link-rewriter';
+import { DEFAULT_JSON_LD_FIELDS, collectJsonLdStrings, applyJsonLdStrings, serializeJsonLd } from './json-ld';
+
+// Phrasing content that can be translated together with its surrounding text
+const INLINE_TAGS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'button', 'cite', 'data', 'del', 'dfn',
+  'em', 'i', 'img', 'ins', 'kbd', 'label', 'mark', 'q', 's', 'samp', 'small',
+  'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr',
+]);
+
+// Grouping elements that are only translated whole when they hold text directly
+const STRUCTURAL_TAGS = new Set([
+  'body', 'main', 'section', 'article', 'aside', 'nav', 'header', 'footer', 'div',
+  'ul', 'ol', 'dl', 'menu', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'form',
+  'fieldset', 'figure', 'details', 'hgroup', 'address', 'select', 'optgroup',
+]);
+
+// Never descended into when looking for text
+const SKIPPED_TAGS = new Set([
+  'script', 'style', 'pre', 'code', 'noscript', 'template', 'textarea',
+  'svg', 'math', 'iframe', 'object', 'canvas',
+]);
+
+interface AttributeRule {
+  selector: string;
+  attribute: string;
+  key: string;
+}
 
 export class HtmlProcessor {
   private config: TranslatorConfig;
   private placeholderMap: Map<string, string>;
   private placeholderIndex: number;
+  private linkRewriter?: LinkRewriter;
+  private baseUrlWarningShown = false;
+  private scopeSelectors: string[] = [];
 
   constructor(config: TranslatorConfig) {
     this.config = config;
@@ -12,15 +44,39 @@ export class HtmlProcessor {
     this.placeholderIndex = 0;
   }
 
+  /**
+   * Register the pages (relative to sourceDir) that get a localized copy,
+   * and the assets deployed with them, so internal links to them can be
+   * rewritten.
+   */
+  setLocalizedPages(pages: string[], assets: string[] = []): void {
+    if (this.config.links?.rewrite !== false || this.config.assets?.strategy !== 'none') {
+      this.linkRewriter = new LinkRewriter(this.config, pages, assets);
+    }
+  }
+
+  /**
+   * Register selectors that translation overrides are scoped to. Extraction
+   * then reports, per segment, which of them contain it.
+   */
+  setScopeSelectors(selectors: string[]): void {
+    this.scopeSelectors = selectors;
+  }
+
   private createPlaceholder(content: string): string {
     const placeholder = `__SKIP_PLACEHOLDER_${this.placeholderIndex++}__`;
     this.placeholderMap.set(placeholder, content);
     return placeholder;
   }
 
-  private restorePlaceholders(content: string): string {
+  private restorePlaceholders(content: string, placeholders: Map<string, string>): string {
     let result = content;
-    for (const [placeholder, original] of this.placeholderMap.entries()) {
+    for (const [placeholder, original] of placeholders.entries()) {
+      if (!result.includes(placeholder)) {
+        throw new Error(
+          `Protected content ${placeholder} was lost during translation: ${original.slice(0, 80)}`
+        );
+      }
       result = result.replace(new RegExp(placeholder, 'g'), original);
     }
     return result;
@@ -30,8 +86,11 @@ export class HtmlProcessor {
     translatable: string[];
     mapping: Map<string, string>;
     processedHtml: string;
+    placeholders: Map<string, string>;
+    scopes: Map<string, string[]>;
   }> {
-    const $ = cheerio.load(html, { decodeEntities: false } as any);
+    // Source locations let protected elements be restored byte-for-byte
+    const $ = cheerio.load(html, { decodeEntities: false, sourceCodeLocationInfo: true } as any);
     const translatable: string[] = [];
     const mapping = new Map<string, string>();
 
@@ -39,11 +98,19 @@ export class HtmlProcessor {
     this.placeholderMap.clear();
     this.placeholderIndex = 0;
 
+    // Content opted out by its authors (translate="no", .notranslate, data marker)
+    // or by configured selectors is never translated
+    this.protectElements($, html, this.getNoTranslateSelectors());
+
     // Replace elements that should not be translated with placeholders
     if (this.config.safety?.preserveScripts !== false) {
       $('script').each((_, elem) => {
         const $elem = $(elem);
         const content = $elem.html() || '';
+        // External scripts have nothing to protect and keep their src rewritable
+        if ($elem.attr('src') && !content.trim()) return;
+        // JSON-LD is translated field by field below
+        if (this.isJsonLdScript($elem) && this.config.jsonLd?.enabled !== false) return;
         const placeholder = this.createPlaceholder(`<script${this.getAttributes($elem)}>` + content + '</script>');
         $elem.replaceWith(placeholder);
       });
@@ -61,6 +128,9 @@ export class HtmlProcessor {
     if (this.config.safety?.preserveCodeBlocks !== false) {
       $('pre, code').each((_, elem) => {
         const $elem = $(elem);
+        // Already part of an enclosing block's placeholder
+        if ($elem.parents('pre, code').length > 0) return;
+
         const tagName = elem.tagName.toLowerCase();
         const content = $elem.html() || '';
         const placeholder = this.createPlaceholder(`<${tagName}${this.getAttributes($elem)}>` + content + `</${tagName}>`);
@@ -143,59 +213,93 @@ export class HtmlProcessor {
       mapping.set(key, twitterImageAlt);
     }
 
-    // Extract translatable text from JSON-LD structured data
-    $('script[type="application/ld+json"]').each((index, elem) => {
-      const $elem = $(elem);
-      const jsonContent = $elem.html();
-      if (jsonContent) {
+    // Extract human-readable fields from JSON-LD structured data
+    if (this.config.jsonLd?.enabled !== false) {
+      const fields = this.config.jsonLd?.fields || DEFAULT_JSON_LD_FIELDS;
+      $('script').filter((_, elem) => this.isJsonLdScript($(elem))).each((index, elem) => {
+        const jsonContent = $(elem).html();
+        if (!jsonContent) return;
+
         try {
           const jsonData = JSON.parse(jsonContent);
-          const key = `__JSON_LD_${index}__`;
-          translatable.push(JSON.stringify(jsonData));
-          mapping.set(key, jsonContent);
+          for (const { path, value } of collectJsonLdStrings(jsonData, fields)) {
+            const key = `__JSON_LD_${index}_${path}__`;
+            translatable.push(value);
+            mapping.set(key, value);
+          }
         } catch (e) {
           // Skip invalid JSON
         }
-      }
-    });
-
-    // Extract translatable text from alt attributes
-    $('img[alt]').each((index, elem) => {
-      const alt = $(elem).attr('alt');
-      if (alt && alt.trim()) {
-        const key = `__IMG_ALT_${index}__`;
-        translatable.push(alt);
-        mapping.set(key, alt);
-      }
-    });
-
-    // Extract translatable text from title attributes
-    $('[title]').each((index, elem) => {
-      const titleAttr = $(elem).attr('title');
-      if (titleAttr && titleAttr.trim()) {
-        const key = `__TITLE_ATTR_${index}__`;
-        translatable.push(titleAttr);
-        mapping.set(key, titleAttr);
-      }
-    });
+      });
+    }
 
-    // Extract translatable text from placeholder attributes
-    $('[placeholder]').each((index, elem) => {
-      const placeholder = $(elem).attr('placeholder');
-      if (placeholder && placeholder.trim()) {
-        const key = `__PLACEHOLDER_${index}__`;
-        translatable.push(placeholder);
-        mapping.set(key, placeholder);
-      }
-    });
+    // Extract translatable attributes (alt, title, placeholder, aria-label, configured extras)
+    const attributeElements: Array<{ key: string; elem: any }> = [];
+    for (const rule of this.getAttributeRules()) {
+      $(rule.selector).each((index, elem) => {
+        const value = $(elem).attr(rule.attribute);
+        if (value && value.trim()) {
+          const key = `__${rule.key}_${index}__`;
+          translatable.push(value);
+          mapping.set(key, value);
+          attributeElements.push({ key, elem });
+        }
+      });
+    }
 
     // Extract block-level elements with their innerHTML (NEW APPROACH)
     this.extractBlockElements($, $('body'), translatable, mapping);
 
+    // Complete mode also catches visible text outside the block list
+    if (this.config.content?.mode === 'complete') {
+      this.extractInlineContainers($, $('body'), translatable, mapping);
+      this.extractTextNodes($, $('body'), translatable, mapping);
+    }
+
+    const scopes = this.collectScopes($, attributeElements);
+
     // Return processed HTML with placeholders
     const processedHtml = $.html();
 
-    return { translatable, mapping, processedHtml };
+    // Placeholders are returned per file so several pages can be extracted before any is applied
+    const placeholders = new Map(this.placeholderMap);
+
+    return { translatable, mapping, processedHtml, placeholders, scopes };
+  }
+
+  /**
+   * Map each segment of page content to the scope selectors matching its
+   * element or one of its ancestors.
+   */
+  private collectScopes(
+    $: cheerio.CheerioAPI,
+    attributeElements: Array<{ key: string; elem: any }>
+  ): Map<string, string[]> {
+    const scopes = new Map<string, string[]>();
+    if (this.scopeSelectors.length === 0) {
+      return scopes;
+    }
+
+    const elements = [...attributeElements];
+    $('[data-translate-key]').each((_, elem) => {
+      elements.push({ key: $(elem).attr('data-translate-key') as string, elem });
+    });
+
+    if (this.config.content?.mode === 'complete') {
+      let textIndex = 0;
+      this.walkTextNodes($, $('body'), node => {
+        elements.push({ key: `__TEXT_${textIndex++}__`, elem: node.parent });
+      });
+    }
+
+    for (const { key, elem } of elements) {
+      const matched = this.scopeSelectors.filter(selector => $(elem).closest(selector).length > 0);
+      if (matched.length > 0) {
+        scopes.set(key, matched);
+      }
+    }
+
+    return scopes;
   }
 
   private extractBlockElements(
@@ -209,10 +313,10 @@ export class HtmlProcessor {
       'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
       'li', 'td', 'th', 'dt', 'dd',
       'blockquote', 'figcaption', 'caption',
-      'label', 'legend', 'summary'
+      'label', 'legend', 'summary', 'option'
     ];
 
-    const blockSelector = blockElements.join(',');
+    const blockSelector = [...blockElements, ...(this.config.content?.selectors || [])].join(',');
 
     element.find(blockSelector).each((index, elem) => {
       const $elem = $(elem);
@@ -252,37 +356,108 @@ export class HtmlProcessor {
     });
   }
 
+  /**
+   * Complete extraction: translate elements outside the fixed block list
+   * (div, span, a, button, ...) whose content is only text and inline markup.
+   * Sectioning elements that merely group such children are descended into,
+   * so e.g. each link of a <nav> becomes its own segment.
+   */
+  private extractInlineContainers(
+    $: cheerio.CheerioAPI,
+    element: cheerio.Cheerio<any>,
+    translatable: string[],
+    mapping: Map<string, string>
+  ): void {
+    element.children().each((_, child) => {
+      const $child = $(child);
+      const tagName = (child as any).tagName?.toLowerCase() || '';
+
+      if (SKIPPED_TAGS.has(tagName) || $child.attr('data-translate-key')) {
+        return;
+      }
+
+      const isContainer = this.hasMeaningfulText($child.text()) &&
+        this.isInlineOnly($, $child) &&
+        (!STRUCTURAL_TAGS.has(tagName) || this.hasDirectText($, $child));
+
+      if (isContainer) {
+        const innerHTML = $child.html() || '';
+        const key = `__BLOCK_${translatable.length}__`;
+        translatable.push(innerHTML);
+        mapping.set(key, innerHTML);
+        $child.attr('data-translate-key', key);
+        return;
+      }
+
+      this.extractInlineContainers($, $child, translatable, mapping);
+    });
+  }
+
   private extractTextNodes(
     $: cheerio.CheerioAPI,
     element: cheerio.Cheerio<any>,
     translatable: string[],
     mapping: Map<string, string>
   ): void {
-    element.contents().each((index, node) => {
+    let textIndex = 0;
+    this.walkTextNodes($, element, (_, text) => {
+      const trimmed = text.trim();
+      const key = `__TEXT_${textIndex++}__`;
+      translatable.push(trimmed);
+      mapping.set(key, trimmed);
+    });
+  }
+
+  /**
+   * Visit the text nodes left outside of marked blocks, in document order.
+   * Extraction and application walk the same processed HTML, so the n-th
+   * visited node always corresponds to `__TEXT_n__`.
+   */
+  private walkTextNodes(
+    $: cheerio.CheerioAPI,
+    element: cheerio.Cheerio<any>,
+    callback: (node: any, text: string) => void
+  ): void {
+    element.contents().each((_, node) => {
       if (node.type === 'text') {
         const text = $(node).text();
-        const trimmed = text.trim();
-        if (trimmed && !trimmed.match(/^__SKIP_PLACEHOLDER_\d+__$/)) {
-          const key = `__TEXT_${translatable.length}__`;
-          translatable.push(trimmed);
-          mapping.set(key, trimmed);
+        if (this.hasMeaningfulText(text)) {
+          callback(node, text);
         }
       } else if (node.type === 'tag') {
         const $node = $(node);
         const tagName = node.name.toLowerCase();
 
-        // Skip certain elements
-        if (!['script', 'style', 'pre', 'code'].includes(tagName)) {
-          this.extractTextNodes($, $node, translatable, mapping);
+        // Skip protected content and elements already translated as blocks
+        if (!SKIPPED_TAGS.has(tagName) && !$node.attr('data-translate-key')) {
+          this.walkTextNodes($, $node, callback);
         }
       }
     });
   }
 
+  private isInlineOnly($: cheerio.CheerioAPI, $elem: cheerio.Cheerio<any>): boolean {
+    return $elem.find('*').toArray().every(descendant => {
+      const tagName = (descendant as any).tagName?.toLowerCase() || '';
+      return INLINE_TAGS.has(tagName) && !$(descendant).attr('data-translate-key');
+    });
+  }
+
+  private hasDirectText($: cheerio.CheerioAPI, $elem: cheerio.Cheerio<any>): boolean {
+    return $elem.contents().toArray().some(node =>
+      node.type === 'text' && this.hasMeaningfulText($(node).text())
+    );
+  }
+
+  private hasMeaningfulText(text: string): boolean {
+    return text.replace(/__SKIP_PLACEHOLDER_\d+__/g, '').trim().length > 0;
+  }
+
   async applyTranslations(
     processedHtml: string,
     translations: Record<string, string>,
-    targetLanguage: string
+    targetLanguage: string,
+    options: { placeholders?: Map<string, string>; pagePath?: string } = {}
   ): Promise<string> {
     const $ = cheerio.load(processedHtml, { decodeEntities: false } as any);
 
@@ -331,59 +506,84 @@ export class HtmlProcessor {
       $('meta[name="twitter:image:alt"]').attr('content', translations['__TWITTER_IMAGE_ALT__']);
     }
 
-    // Apply JSON-LD structured data translations
-    $('script[type="application/ld+json"]').each((index, elem) => {
-      const key = `__JSON_LD_${index}__`;
-      if (translations[key]) {
+    // Apply JSON-LD field translations
+    if (this.config.jsonLd?.enabled !== false) {
+      $('script').filter((_, elem) => this.isJsonLdScript($(elem))).each((index, elem) => {
+        const prefix = `__JSON_LD_${index}_`;
+        const fieldTranslations: Record<string, string> = {};
+        for (const [key, value] of Object.entries(translations)) {
+          if (key.startsWith(prefix) && key.endsWith('__')) {
+            fieldTranslations[key.slice(prefix.length, -2)] = value;
+          }
+        }
+        if (Object.keys(fieldTranslations).length === 0) return;
+
+        const jsonContent = $(elem).html() || '';
         try {
-          // Parse the translated JSON string and re-stringify with proper formatting
-          const translatedData = JSON.parse(translations[key]);
-          $(elem).html(JSON.stringify(translatedData));
+          const jsonData = JSON.parse(jsonContent);
+          applyJsonLdStrings(jsonData, fieldTranslations);
+          $(elem).html(serializeJsonLd(jsonData, jsonContent));
         } catch (e) {
-          // Skip if translation resulted in invalid JSON
+          // Leave the original structured data if it cannot be parsed
         }
-      }
-    });
-
-    // Apply alt attribute translations
-    $('img[alt]').each((index, elem) => {
-      const key = `__IMG_ALT_${index}__`;
-      if (translations[key]) {
-        $(elem).attr('alt', translations[key]);
-      }
-    });
+      });
+    }
 
-    // Apply title attribute translations
-    $('[title]').each((index, elem) => {
-      const key = `__TITLE_ATTR_${index}__`;
-      if (translations[key]) {
-        $(elem).attr('title', translations[key]);
-      }
+    // Resolve attribute translations by source value before blocks are replaced,
+    // so attributes inside translated blocks (e.g. <abbr title>) are covered too
+    const attributeRules = this.getAttributeRules();
+    const attributeTranslations = attributeRules.map(rule => {
+      const byValue = new Map<string, string>();
+      $(rule.selector).each((index, elem) => {
+        const key = `__${rule.key}_${index}__`;
+        const value = $(elem).attr(rule.attribute);
+        if (value && translations[key]) {
+          byValue.set(value, translations[key]);
+        }
+      });
+      return byValue;
     });
 
-    // Apply placeholder attribute translations
-    $('[placeholder]').each((index, elem) => {
-      const key = `__PLACEHOLDER_${index}__`;
-      if (translations[key]) {
-        $(elem).attr('placeholder', translations[key]);
-      }
-    });
+    // Loose text runs first: their order is only stable before blocks change
+    if (this.config.content?.mode === 'complete') {
+      this.replaceTextNodes($, $('body'), translations);
+    }
 
     // Apply block-level element translations (NEW APPROACH)
     this.applyBlockTranslations($, translations);
 
+    // Apply attribute translations
+    attributeRules.forEach((rule, ruleIndex) => {
+      const byValue = attributeTranslations[ruleIndex];
+      if (!byValue || byValue.size === 0) return;
+
+      $(rule.selector).each((_, elem) => {
+        const value = $(elem).attr(rule.attribute);
+        const translated = value !== undefined ? byValue.get(value) : undefined;
+        if (translated !== undefined) {
+          $(elem).attr(rule.attribute, translated);
+        }
+      });
+    });
+
+    // Point internal links at the localized page tree (and assets at the shared root)
+    if (this.linkRewriter && options.pagePath !== undefined) {
+      this.linkRewriter.rewrite($, options.pagePath, targetLanguage);
+    }
+
     // Add hreflang tags if enabled
     if (this.config.seo?.injectHreflang !== false) {
-      this.injectHreflangTags($, targetLanguage);
+      this.injectHreflangTags($, options.pagePath ?? 'index.html');
     }
 
     // Add language attribute to html tag
     $('html').attr('lang', targetLanguage);
+    $('meta[http-equiv="Content-Language" i]').attr('content', targetLanguage);
 
     let result = $.html();
 
     // Restore placeholders
-    result = this.restorePlaceholders(result);
+    result = this.restorePlaceholders(result, options.placeholders || this.placeholderMap);
 
     return result;
   }
@@ -409,65 +609,151 @@ export class HtmlProcessor {
   private replaceTextNodes(
     $: cheerio.CheerioAPI,
     element: cheerio.Cheerio<any>,
-    translations: Record<string, string>,
-    textIndex: number
-  ): number {
-    element.contents().each((_, node) => {
-      if (node.type === 'text') {
-        const text = $(node).text();
-        const trimmed = text.trim();
-        if (trimmed && !trimmed.match(/^__SKIP_PLACEHOLDER_\d+__$/)) {
-          const key = `__TEXT_${textIndex}__`;
-          if (translations[key]) {
-            // Preserve original whitespace
-            const leadingSpace = text.match(/^\s*/)?.[0] || '';
-            const trailingSpace = text.match(/\s*$/)?.[0] || '';
-            $(node).replaceWith(leadingSpace + translations[key] + trailingSpace);
-          }
-          textIndex++;
-        }
-      } else if (node.type === 'tag') {
-        const tagName = node.name.toLowerCase();
-        if (!['script', 'style', 'pre', 'code'].includes(tagName)) {
-          textIndex = this.replaceTextNodes($, $(node), translations, textIndex);
-        }
+    translations: Record<string, string>
+  ): void {
+    let textIndex = 0;
+    this.walkTextNodes($, element, (node, text) => {
+      const key = `__TEXT_${textIndex++}__`;
+      if (translations[key]) {
+        // Preserve original whitespace
+        const leadingSpace = text.match(/^\s*/)?.[0] || '';
+        const trailingSpace = text.match(/\s*$/)?.[0] || '';
+        $(node).replaceWith(leadingSpace + translations[key] + trailingSpace);
       }
     });
-    return textIndex;
   }
 
-  private injectHreflangTags($: cheerio.CheerioAPI, currentLanguage: string): void {
+  /**
+   * Add the hreflang alternates of a page to its untranslated source HTML.
+   */
+  injectSourceHreflang(html: string, pagePath: string): string {
+    const $ = cheerio.load(html, { decodeEntities: false } as any);
+    this.injectHreflangTags($, pagePath);
+    return $.html();
+  }
+
+  private injectHreflangTags($: cheerio.CheerioAPI, pagePath: string): void {
     // Remove existing hreflang tags
     $('link[rel="alternate"][hreflang]').remove();
 
-    const baseUrl = this.config.seo?.baseUrl;
-
-    // Warn if baseUrl is not configured
-    if (!baseUrl) {
+    // Warn (once per run) if baseUrl is not configured
+    if (!this.config.seo?.baseUrl && !this.baseUrlWarningShown) {
+      this.baseUrlWarningShown = true;
       console.warn('⚠️  seo.baseUrl is not configured. Hreflang tags will use relative paths, which may not be ideal for SEO.');
     }
 
-    // Add hreflang tags for all configured languages
-    const languages = [
-      ...this.config.targetLanguages,
-      this.getSourceLanguage(),
-    ].filter((lang, index, self) => self.indexOf(lang) === index);
+    const sourceLanguage = this.getSourceLanguage();
+    const alternates: Array<{ hreflang: string; href: string }> = [
+      { hreflang: sourceLanguage, href: getPageUrl(this.config, pagePath) },
+    ];
 
-    languages.forEach(lang => {
-      const hreflang = lang === currentLanguage ? 'x-default' : lang;
+    // Every language points at the same page in its own tree
+    this.config.targetLanguages
+      .filter(lang => lang !== sourceLanguage)
+      .forEach(lang => {
+        alternates.push({ hreflang: lang, href: getPageUrl(this.config, pagePath, lang) });
+      });
 
-      // Generate absolute or relative URL
-      const href = baseUrl
-        ? `${baseUrl.replace(/\/$/, '')}/${lang}/`
-        : `/${lang}/`;
+    alternates.push({
+      hreflang: 'x-default',
+      href: getXDefaultUrl(this.config, pagePath, sourceLanguage),
+    });
 
+    alternates.forEach(({ hreflang, href }) => {
       $('head').append(`<link rel="alternate" hreflang="${hreflang}" href="${href}" />\n`);
     });
   }
 
-  private getSourceLanguage(): string {
-    // Try to detect from existing HTML or default to 'en'
-    return 'en';
+  getSourceLanguage(): string {
+    // Configured or detected by the translate command, default to 'en'
+    return this.config.sourceLanguage || 'en';
+  }
+
+  /**
+   * Detect the language a page is written in from `<html lang>` or a
+   * Content-Language meta tag. Returns null if the page declares none.
+   */
+  detectLanguage(html: string): string | null {
+    const $ = cheerio.load(html, { decodeEntities: false } as any);
+
+    const htmlLang = $('html').attr('lang')?.trim();
+    if (htmlLang) {
+      return htmlLang;
+    }
+
+    const contentLanguage = $('meta[http-equiv="Content-Language" i]').attr('content');
+    const firstLanguage = contentLanguage?.split(',')[0]?.trim();
+    return firstLanguage || null;
+  }
+
+  private getNoTranslateSelectors(): string[] {
+    const marker = this.config.content?.noTranslateAttribute || 'data-notranslate';
+
+    return [
+      '[translate="no" i]',
+      '.notranslate',
+      `[${marker}]`,
+      ...(this.config.content?.excludeSelectors || []),
+    ];
+  }
+
+  /**
+   * Replace every element matching the selectors with a placeholder holding
+   * its original source text, so it survives byte-for-byte even inside
+   * translated blocks.
+   */
+  private protectElements($: cheerio.CheerioAPI, html: string, selectors: string[]): void {
+    const selector = selectors.join(',');
+
+    $(selector).each((_, elem) => {
+      const $elem = $(elem);
+      // Nested matches are already covered by their protected ancestor
+      if ($elem.parents(selector).length > 0) return;
+
+      const location = (elem as any).sourceCodeLocation;
+      const original = location && typeof location.endOffset === 'number'
+        ? html.slice(location.startOffset, location.endOffset)
+        : $.html($elem);
+
+      $elem.replaceWith(this.createPlaceholder(original));
+    });
+  }
+
+  /**
+   * Attributes translated on their own, outside of block content. Configured
+   * entries are either an attribute name (translated on any element) or a
+   * selector/attribute pair.
+   */
+  private getAttributeRules(): AttributeRule[] {
+    const rules: AttributeRule[] = [
+      { selector: 'img[alt]', attribute: 'alt', key: 'IMG_ALT' },
+      { selector: '[title]', attribute: 'title', key: 'TITLE_ATTR' },
+      { selector: '[placeholder]', attribute: 'placeholder', key: 'PLACEHOLDER' },
+      { selector: '[aria-label]', attribute: 'aria-label', key: 'ARIA_LABEL' },
+      { selector: '[aria-description]', attribute: 'aria-description', key: 'ARIA_DESC' },
+      {
+        selector: 'input[type="submit" i][value], input[type="button" i][value], input[type="reset" i][value]',
+        attribute: 'value',
+        key: 'INPUT_VALUE',
+      },
+      { selector: 'optgroup[label]', attribute: 'label', key: 'OPTGROUP_LABEL' },
+    ];
+
+    (this.config.content?.attributes || []).forEach((entry, index) => {
+      if (typeof entry === 'string') {
+        if (!rules.some(rule => rule.selector === `[${entry}]`)) {
+          rules.push({ selector: `[${entry}]`, attribute: entry, key: `ATTR_${entry}` });
+        }
+      } else {
+        rules.push({ selector: entry.selector, attribute: entry.attribute, key: `ATTR_${index}_${entry.attribute}` });
+      }
+    });
+
+    return rules;
+  }
+
+  private isJsonLdScript($elem: cheerio.Cheerio<any>): boolean {
+    return ($elem.attr('type') || '').trim().toLowerCase() === 'application/ld+json';
   }
 
   private getAttributes($elem: cheerio.Cheerio<any>): string {
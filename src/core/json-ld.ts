@@ -0,0 +1,104 @@
+export const DEFAULT_JSON_LD_FIELDS = [
+  'name',
+  'alternateName',
+  'description',
+  'disambiguatingDescription',
+  'headline',
+  'alternativeHeadline',
+  'text',
+  'answer',
+  'caption',
+  'abstract',
+  'articleBody',
+  'reviewBody',
+  'slogan',
+  'keywords',
+];
+
+const URL_LIKE = /^(https?:)?\/\/|^mailto:|^tel:/i;
+
+/**
+ * Collect the human-readable strings of a JSON-LD document. Only values of
+ * allowlisted fields are returned; schema keys (`@type`, `@id`, ...) and
+ * identifiers, URLs, dates and numbers are never touched. Each string is
+ * addressed by its JSON Pointer, e.g. `/@graph/0/mainEntity/1/name`.
+ */
+export function collectJsonLdStrings(
+  data: unknown,
+  fields: string[]
+): Array<{ path: string; value: string }> {
+  const strings: Array<{ path: string; value: string }> = [];
+  const allowed = new Set(fields);
+
+  const visit = (node: unknown, path: string, translatable: boolean) => {
+    if (typeof node === 'string') {
+      if (translatable && node.trim() && !URL_LIKE.test(node.trim())) {
+        strings.push({ path, value: node });
+      }
+      return;
+    }
+
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => visit(item, joinPath(path, String(index)), translatable));
+      return;
+    }
+
+    if (node && typeof node === 'object') {
+      for (const [key, value] of Object.entries(node as Record<string, unknown>)) {
+        if (key.startsWith('@')) {
+          // Keyword containers such as @graph hold nodes, the rest are identifiers
+          if (key === '@graph' || key === '@list' || key === '@set') {
+            visit(value, joinPath(path, key), false);
+          }
+          continue;
+        }
+        visit(value, joinPath(path, key), allowed.has(key));
+      }
+    }
+  };
+
+  visit(data, '', false);
+  return strings;
+}
+
+/**
+ * Write translated strings back into a JSON-LD document in place.
+ * `translations` is keyed by the pointers returned from collectJsonLdStrings.
+ */
+export function applyJsonLdStrings(
+  data: unknown,
+  translations: Record<string, string>
+): void {
+  for (const [path, translation] of Object.entries(translations)) {
+    const segments = path.split('/').slice(1).map(unescapePointer);
+    const last = segments.pop();
+    if (last === undefined) continue;
+
+    let node: any = data;
+    for (const segment of segments) {
+      node = node?.[segment];
+    }
+
+    if (node && typeof node === 'object' && typeof node[last] === 'string') {
+      node[last] = translation;
+    }
+  }
+}
+
+/**
+ * Serialize JSON-LD for embedding in a <script> element, keeping the
+ * original indentation style and escaping "</" so it cannot close the tag.
+ */
+export function serializeJsonLd(data: unknown, original: string): string {
+  const indented = /\n\s+"/.test(original);
+  const json = JSON.stringify(data, null, indented ? 2 : undefined).replace(/<\//g, '<\\/');
+  return indented ? `\n${json}\n` : json;
+}
+
+function joinPath(path: string, key: string): string {
+  return `${path}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function unescapePointer(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
@@ -0,0 +1,215 @@
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import { TranslatorConfig } from '../types';
+
+const PAGE_EXTENSION = /\.html?$/i;
+const NON_HTTP_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * Rewrites links between translated pages so that a localized page links to
+ * other pages of the same language instead of back to the source tree.
+ *
+ * The deployed layout is assumed to be the source site at the root and each
+ * language under `/<lang>/`, mirroring `outputDir/<lang>/`. With the "shared"
+ * asset strategy, relative asset URLs are also pointed at the root copy; when
+ * every language folder has its own assets, root-relative URLs of deployed
+ * assets are pointed at the language's copy.
+ */
+export class LinkRewriter {
+  private config: TranslatorConfig;
+  private localizedPages: Set<string>;
+  private deployedAssets: Set<string>;
+  private rewritePages: boolean;
+  private rewriteAssets: boolean;
+  private localizeAssets: boolean;
+  private baseOrigin?: string;
+  private basePath: string;
+
+  constructor(config: TranslatorConfig, localizedPages: string[], deployedAssets: string[] = []) {
+    this.config = config;
+    this.localizedPages = new Set(localizedPages.map(page => toPosix(page)));
+    this.deployedAssets = new Set(deployedAssets.map(asset => toPosix(asset)));
+    this.rewritePages = config.links?.rewrite !== false;
+    this.rewriteAssets = config.assets?.strategy === 'shared';
+    this.localizeAssets = !['shared', 'none'].includes(config.assets?.strategy || 'copy');
+    this.basePath = '/';
+
+    const baseUrl = config.seo?.baseUrl;
+    if (baseUrl) {
+      const parsed = new URL(baseUrl);
+      this.baseOrigin = parsed.origin;
+      this.basePath = parsed.pathname.endsWith('/') ? parsed.pathname : `${parsed.pathname}/`;
+    }
+  }
+
+  rewrite($: cheerio.CheerioAPI, pagePath: string, targetLanguage: string): void {
+    // hreflang alternates are managed separately and must keep pointing at each language
+    $('[href]').not('[hreflang]').each((_, elem) => {
+      this.rewriteAttribute($(elem), 'href', pagePath, targetLanguage);
+    });
+
+    $('[action]').each((_, elem) => {
+      this.rewriteAttribute($(elem), 'action', pagePath, targetLanguage);
+    });
+
+    $('[formaction]').each((_, elem) => {
+      this.rewriteAttribute($(elem), 'formaction', pagePath, targetLanguage);
+    });
+
+    if (this.rewriteAssets || this.localizeAssets) {
+      $('[src], [poster]').each((_, elem) => {
+        this.rewriteAttribute($(elem), 'src', pagePath, targetLanguage);
+        this.rewriteAttribute($(elem), 'poster', pagePath, targetLanguage);
+      });
+    }
+
+    $('[srcset]').each((_, elem) => {
+      const $elem = $(elem);
+      const srcset = $elem.attr('srcset');
+      if (!srcset) return;
+
+      const rewritten = srcset
+        .split(',')
+        .map(candidate => {
+          const match = candidate.match(/^(\s*)(\S+)(.*)$/);
+          if (!match) return candidate;
+          const [, leading, url, descriptor] = match;
+          return `${leading}${this.localizeUrl(url as string, pagePath, targetLanguage)}${descriptor}`;
+        })
+        .join(',');
+
+      $elem.attr('srcset', rewritten);
+    });
+  }
+
+  private rewriteAttribute(
+    $elem: cheerio.Cheerio<any>,
+    attribute: string,
+    pagePath: string,
+    targetLanguage: string
+  ): void {
+    const url = $elem.attr(attribute);
+    if (!url) return;
+
+    const localized = this.localizeUrl(url, pagePath, targetLanguage);
+    if (localized !== url) {
+      $elem.attr(attribute, localized);
+    }
+  }
+
+  /**
+   * Return the URL a localized copy of `pagePath` should use for `url`.
+   * Anything that is not a link to another page of this site (or an asset
+   * URL the asset strategy moves) is returned unchanged.
+   */
+  localizeUrl(url: string, pagePath: string, targetLanguage: string): string {
+    const trimmed = url.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('__SKIP_PLACEHOLDER_')) {
+      return url;
+    }
+
+    const { pathname, suffix } = splitUrl(trimmed);
+
+    // Absolute URL: only internal when it lives under seo.baseUrl
+    if (trimmed.startsWith('//') || NON_HTTP_SCHEME.test(trimmed)) {
+      if (!this.baseOrigin) return url;
+
+      const absolute = trimmed.startsWith('//') ? `https:${trimmed}` : trimmed;
+      let parsed: URL;
+      try {
+        parsed = new URL(absolute);
+      } catch (e) {
+        return url;
+      }
+
+      if (parsed.origin !== this.baseOrigin || !parsed.pathname.startsWith(this.basePath)) {
+        return url;
+      }
+
+      const sitePath = parsed.pathname.slice(this.basePath.length);
+      if (!this.rewritePages || !this.isLocalizedPage(sitePath)) return url;
+
+      return `${this.baseOrigin}${this.basePath}${targetLanguage}/${sitePath}${parsed.search}${parsed.hash}`;
+    }
+
+    // Root-relative URL
+    if (pathname.startsWith('/')) {
+      if (!pathname.startsWith(this.basePath)) return url;
+
+      const sitePath = pathname.slice(this.basePath.length);
+      if (this.localizeAssets && this.isDeployedAsset(sitePath)) {
+        return `${this.basePath}${targetLanguage}/${sitePath}${suffix}`;
+      }
+      if (!this.rewritePages || !this.isLocalizedPage(sitePath)) return url;
+
+      return `${this.basePath}${targetLanguage}/${sitePath}${suffix}`;
+    }
+
+    // Relative URL: the language tree mirrors the source tree, so links to
+    // localized pages already resolve correctly. Links to pages that were not
+    // translated (e.g. ignored paths) and shared assets must step out of the
+    // language directory, from as deep as the page sits in it.
+    const pageDir = path.posix.dirname(toPosix(pagePath));
+    const resolved = path.posix.normalize(path.posix.join(pageDir, pathname));
+    if (!pathname || resolved.startsWith('..') || this.isLocalizedPage(resolved)) {
+      return url;
+    }
+
+    const isPage = PAGE_EXTENSION.test(pathname);
+    if ((isPage && this.rewritePages) || (!isPage && this.rewriteAssets)) {
+      const depth = pageDir === '.' ? 0 : pageDir.split('/').length;
+      return `${'../'.repeat(depth + 1)}${resolved}${suffix}`;
+    }
+
+    return url;
+  }
+
+  /**
+   * Whether `sitePath` is an asset copied into every language folder. Other
+   * files (ignored assets, the sitemap, URLs served by something else) only
+   * exist at the root.
+   */
+  private isDeployedAsset(sitePath: string): boolean {
+    return this.deployedAssets.has(safeDecode(sitePath).replace(/^\/+/, ''));
+  }
+
+  private isLocalizedPage(sitePath: string): boolean {
+    const decoded = safeDecode(sitePath).replace(/^\/+/, '');
+
+    // Links that already point into a language tree are left alone
+    const firstSegment = decoded.split('/')[0];
+    if (firstSegment && this.config.targetLanguages.includes(firstSegment)) {
+      return false;
+    }
+
+    const candidates = decoded === '' || decoded.endsWith('/')
+      ? [`${decoded}index.html`]
+      : PAGE_EXTENSION.test(decoded)
+        ? [decoded]
+        : path.posix.extname(decoded)
+          ? []
+          : [`${decoded}.html`, `${decoded}/index.html`];
+
+    return candidates.some(candidate => this.localizedPages.has(candidate));
+  }
+}
+
+function splitUrl(url: string): { pathname: string; suffix: string } {
+  const index = url.search(/[?#]/);
+  if (index === -1) {
+    return { pathname: url, suffix: '' };
+  }
+  return { pathname: url.slice(0, index), suffix: url.slice(index) };
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURI(value);
+  } catch (e) {
+    return value;
+  }
+}
@@ -0,0 +1,73 @@
+import { ModelPricing, TokenUsage } from '../types';
+
+export interface ModelLimits {
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+// Matched by prefix, so dated snapshots (gpt-4o-2024-08-06) share an entry
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+  'gpt-4o-mini': { contextWindow: 128000, maxOutputTokens: 16384 },
+  'gpt-4o': { contextWindow: 128000, maxOutputTokens: 16384 },
+  'gpt-4.1': { contextWindow: 1047576, maxOutputTokens: 32768 },
+  'gpt-4-turbo': { contextWindow: 128000, maxOutputTokens: 4096 },
+  'gpt-4': { contextWindow: 8192, maxOutputTokens: 4096 },
+  'gpt-3.5-turbo': { contextWindow: 16385, maxOutputTokens: 4096 },
+};
+
+// Conservative limits for unknown (e.g. self-hosted) models
+const DEFAULT_LIMITS: ModelLimits = { contextWindow: 16000, maxOutputTokens: 4096 };
+
+// USD per 1M tokens, standard (non-batch) API rates
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  'gpt-4o': { input: 2.5, cachedInput: 1.25, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  'gpt-4.1': { input: 2, cachedInput: 0.5, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
+
+export function getModelLimits(model: string): ModelLimits {
+  return MODEL_LIMITS[findModelKey(model, Object.keys(MODEL_LIMITS)) || ''] || DEFAULT_LIMITS;
+}
+
+/**
+ * Longest table key the model name starts with.
+ */
+export function findModelKey(model: string, keys: string[]): string | undefined {
+  return keys
+    .filter(key => model === key || model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * Pricing for a model: configured entries override the built-in table.
+ * Returns undefined for models without a known price.
+ */
+export function getModelPricing(
+  model: string,
+  configured: Record<string, ModelPricing> = {}
+): ModelPricing | undefined {
+  const table = { ...MODEL_PRICING, ...configured };
+  const key = findModelKey(model, Object.keys(table));
+  return key ? table[key] : undefined;
+}
+
+/**
+ * Cost in USD. Cached prompt tokens are billed at the cached-input rate
+ * when the model has one.
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing | undefined): number {
+  if (!pricing) return 0;
+
+  const uncachedPrompt = usage.promptTokens - usage.cachedPromptTokens;
+  const cachedRate = pricing.cachedInput ?? pricing.input;
+  return (
+    uncachedPrompt * pricing.input +
+    usage.cachedPromptTokens * cachedRate +
+    usage.completionTokens * pricing.output
+  ) / 1000000;
+}
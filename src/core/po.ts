@@ -0,0 +1,131 @@
+export interface PoEntry {
+  context: string;
+  source: string;
+  translation: string;
+  reference?: string;
+  fuzzy?: boolean;
+}
+
+export interface PoDocument {
+  headers: Record<string, string>;
+  entries: PoEntry[];
+}
+
+/**
+ * Serialize a gettext PO (or POT, when no translations are filled in) file.
+ */
+export function buildPo(document: PoDocument): string {
+  const header = Object.entries(document.headers)
+    .map(([name, value]) => `${name}: ${value}\n`)
+    .join('');
+
+  const blocks = [
+    ['msgid ""', `msgstr ${quote(header)}`].join('\n'),
+    ...document.entries.map(entry => {
+      const lines: string[] = [];
+      if (entry.reference) lines.push(`#: ${entry.reference}`);
+      if (entry.fuzzy) lines.push('#, fuzzy');
+      lines.push(`msgctxt ${quote(entry.context)}`);
+      lines.push(`msgid ${quote(entry.source)}`);
+      lines.push(`msgstr ${quote(entry.translation)}`);
+      return lines.join('\n');
+    }),
+  ];
+
+  return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * Parse a PO file as written by Poedit, Weblate or buildPo. Obsolete (`#~`)
+ * entries are dropped; plural forms are not used by this tool and only the
+ * first msgstr is kept.
+ */
+export function parsePo(content: string): PoDocument {
+  const entries: PoEntry[] = [];
+  let headers: Record<string, string> = {};
+
+  for (const block of content.replace(/\r\n/g, '\n').split(/\n\s*\n/)) {
+    const fields: Record<string, string> = {};
+    let field: string | null = null;
+    let fuzzy = false;
+    let reference: string | undefined;
+
+    for (const rawLine of block.split('\n')) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      if (line.startsWith('#')) {
+        if (line.startsWith('#,') && /\bfuzzy\b/.test(line)) fuzzy = true;
+        if (line.startsWith('#:')) reference = line.slice(2).trim();
+        continue;
+      }
+
+      const match = line.match(/^(msgctxt|msgid|msgid_plural|msgstr(?:\[\d+\])?)\s+(".*")$/);
+      if (match) {
+        field = match[1] === 'msgstr[0]' ? 'msgstr' : match[1] as string;
+        fields[field] = unquote(match[2] as string);
+      } else if (line.startsWith('"') && field) {
+        fields[field] += unquote(line);
+      } else {
+        throw new Error(`Invalid PO line: ${line}`);
+      }
+    }
+
+    if (fields.msgid === undefined) continue;
+
+    if (fields.msgid === '' && fields.msgctxt === undefined) {
+      headers = parseHeaders(fields.msgstr || '');
+      continue;
+    }
+
+    entries.push({
+      context: fields.msgctxt || '',
+      source: fields.msgid,
+      translation: fields.msgstr || '',
+      reference,
+      fuzzy,
+    });
+  }
+
+  return { headers, entries };
+}
+
+function parseHeaders(value: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of value.split('\n')) {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers[line.slice(0, index).trim()] = line.slice(index + 1).trim();
+    }
+  }
+  return headers;
+}
+
+function quote(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r');
+
+  if (!value.includes('\n')) {
+    return `"${escaped.replace(/\n/g, '\\n')}"`;
+  }
+
+  // Multi-line strings are written the way gettext tools do
+  const lines = escaped.split(/(?<=\n)/).map(line => `"${line.replace(/\n/g, '\\n')}"`);
+  return ['""', ...lines].join('\n');
+}
+
+function unquote(value: string): string {
+  return value
+    .slice(1, -1)
+    .replace(/\\(.)/g, (_, char: string) => {
+      switch (char) {
+        case 'n': return '\n';
+        case 't': return '\t';
+        case 'r': return '\r';
+        default: return char;
+      }
+    });
+}
@@ -0,0 +1,38 @@
+import { TranslatorConfig, TranslationProvider } from '../../types';
+import { OpenAIProvider } from './openai-provider';
+import { StubProvider } from './stub-provider';
+
+export { OpenAIProvider } from './openai-provider';
+export { StubProvider } from './stub-provider';
+
+export function createProvider(config: TranslatorConfig): TranslationProvider {
+  const providerConfig = config.provider || {};
+  const type = providerConfig.type || 'openai';
+
+  switch (type) {
+    case 'stub':
+      return new StubProvider(providerConfig.stubMode);
+
+    case 'openai-compatible':
+      if (!providerConfig.baseUrl) {
+        throw new Error('provider.baseUrl is required for the "openai-compatible" provider.');
+      }
+      return new OpenAIProvider({
+        // Self-hosted endpoints often accept any key, but the SDK requires one
+        apiKey: providerConfig.apiKey || config.openaiApiKey || 'not-needed',
+        baseUrl: providerConfig.baseUrl,
+        name: 'openai-compatible',
+      });
+
+    case 'openai': {
+      const apiKey = providerConfig.apiKey || config.openaiApiKey;
+      if (!apiKey) {
+        throw new Error('OpenAI API key is required. Set it in config or OPENAI_API_KEY environment variable.');
+      }
+      return new OpenAIProvider({ apiKey, baseUrl: providerConfig.baseUrl });
+    }
+
+    default:
+      throw new Error(`Unknown translation provider: ${type}`);
+  }
+}
@@ -0,0 +1,54 @@
+import OpenAI from 'openai';
+import { ProviderRequest, ProviderResponse, TranslationProvider } from '../../types';
+
+export class OpenAIProvider implements TranslationProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(options: { apiKey: string; baseUrl?: string; name?: string }) {
+    this.name = options.name || 'openai';
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseUrl,
+    });
+  }
+
+  async translate(request: ProviderRequest): Promise<ProviderResponse> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt }
+      ],
+      temperature: 0.3,
+      max_tokens: request.maxTokens,
+      response_format: { type: "json_object" },
+    });
+
+    const content = response.choices[0]?.message?.content || '';
+
+    // Parse JSON response with error handling
+    let parsed: { translations: string[] };
+    try {
+      parsed = JSON.parse(content);
+
+      // Validate response structure
+      if (!parsed.translations || !Array.isArray(parsed.translations)) {
+        throw new Error('Response missing "translations" array or translations is not an array');
+      }
+    } catch (parseError) {
+      console.error('Failed to parse JSON response:', content);
+      throw new Error(`Invalid JSON response from ${this.name} API: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
+    }
+
+    return {
+      translations: parsed.translations,
+      tokensUsed: response.usage?.total_tokens || 0,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+        cachedPromptTokens: response.usage?.prompt_tokens_details?.cached_tokens || 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { ProviderRequest, ProviderResponse, TranslationProvider } from '../../types';
+
+/**
+ * Offline provider that never touches the network.
+ * "echo" returns the source texts unchanged; "prefix" marks each text with
+ * the target language (e.g. "[es] Hello") so tests can tell it was applied.
+ */
+export class StubProvider implements TranslationProvider {
+  readonly name = 'stub';
+  private mode: 'echo' | 'prefix';
+
+  constructor(mode: 'echo' | 'prefix' = 'echo') {
+    this.mode = mode;
+  }
+
+  async translate(request: ProviderRequest): Promise<ProviderResponse> {
+    const translations = request.texts.map(text =>
+      this.mode === 'prefix' ? `[${request.targetLanguage}] ${text}` : text
+    );
+
+    return { translations, tokensUsed: 0 };
+  }
+}
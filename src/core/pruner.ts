@@ -0,0 +1,112 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { glob } from 'glob';
+import { TranslatorConfig, ExtractedPage } from '../types';
+import { findAssets } from '../utils/assets';
+import { Translator } from './translator';
+
+export interface PrunePlan {
+  // Output files, relative to outputDir
+  files: string[];
+  // Orphaned cache entries per language
+  cacheEntries: Record<string, number>;
+}
+
+/**
+ * Finds and removes what the source site no longer accounts for: localized
+ * files whose source page or asset was deleted or renamed, and translation
+ * memory entries no current segment would look up.
+ */
+export class Pruner {
+  private config: TranslatorConfig;
+  private translator: Translator;
+
+  constructor(config: TranslatorConfig, translator: Translator) {
+    this.config = config;
+    this.translator = translator;
+  }
+
+  /**
+   * List the orphans without deleting anything. `pages` must hold every
+   * page of the site; cache entries are only considered when
+   * `includeCache` is set, since a page that failed to extract would
+   * otherwise lose its entries.
+   */
+  async plan(htmlFiles: string[], pages: ExtractedPage[], includeCache: boolean = true): Promise<PrunePlan> {
+    const outputDir = path.resolve(this.config.outputDir);
+    const strategy = this.config.assets?.strategy || 'copy';
+    const expected = new Set(htmlFiles.map(toPosix));
+
+    // Assets are mirrored into each language folder unless shared or disabled
+    if (strategy !== 'shared' && strategy !== 'none') {
+      (await findAssets(this.config)).forEach(asset => expected.add(toPosix(asset)));
+    }
+
+    const files: string[] = [];
+    for (const language of this.config.targetLanguages) {
+      const languageDir = path.join(outputDir, language);
+      if (!await fs.pathExists(languageDir)) continue;
+
+      const outputs = await glob('**/*', { cwd: languageDir, nodir: true, dot: true });
+      for (const output of outputs) {
+        if (!expected.has(toPosix(output))) {
+          files.push(path.join(language, output));
+        }
+      }
+    }
+
+    // Source-language copies with hreflang tags live at the root of outputDir
+    if (this.config.seo?.hreflangInSource && await fs.pathExists(outputDir)) {
+      const sourceCopies = await glob('**/*.html', {
+        cwd: outputDir,
+        nodir: true,
+        ignore: this.config.targetLanguages.map(language => `${language}/**`),
+      });
+      const sources = new Set(htmlFiles.map(toPosix));
+      files.push(...sourceCopies.filter(copy => !sources.has(toPosix(copy))));
+    }
+
+    const cacheEntries: Record<string, number> = {};
+    if (includeCache) {
+      const texts = Array.from(new Set(pages.flatMap(page => Array.from(page.mapping.values()))));
+      for (const language of this.config.targetLanguages) {
+        const orphaned = await this.translator.pruneCache(texts, language, true);
+        if (orphaned > 0) {
+          cacheEntries[language] = orphaned;
+        }
+      }
+    }
+
+    return { files: files.sort(), cacheEntries };
+  }
+
+  /**
+   * Delete the planned files, and folders they leave empty, and drop the
+   * orphaned cache entries. The cache still has to be flushed.
+   */
+  async apply(plan: PrunePlan, pages: ExtractedPage[]): Promise<void> {
+    const outputDir = path.resolve(this.config.outputDir);
+
+    for (const file of plan.files) {
+      const filePath = path.join(outputDir, file);
+      await fs.remove(filePath);
+
+      let dir = path.dirname(filePath);
+      while (dir.startsWith(outputDir + path.sep) && (await fs.readdir(dir)).length === 0) {
+        await fs.rmdir(dir);
+        dir = path.dirname(dir);
+      }
+    }
+
+    if (Object.keys(plan.cacheEntries).length > 0) {
+      const texts = Array.from(new Set(pages.flatMap(page => Array.from(page.mapping.values()))));
+      for (const language of Object.keys(plan.cacheEntries)) {
+        await this.translator.pruneCache(texts, language);
+      }
+    }
+  }
+}
+
+function toPosix(file: string): string {
+  return file.split(path.sep).join('/');
+}
@@ -0,0 +1,90 @@
+import { TranslatorConfig, ExtractedPage } from '../types';
+import { excludeSourceLanguage } from '../utils/config';
+import { CacheManager } from '../utils/cache';
+import { findHtmlFiles, extractPages, detectSourceLanguage, getSegmentId, buildSiteMapping } from '../utils/pages';
+import { ReviewStore } from '../utils/review-store';
+import { HtmlProcessor } from './html-processor';
+import { Translator } from './translator';
+
+export interface ExportedSegment {
+  key: string;
+  source: string;
+  translation?: string;
+  reviewed: boolean;
+}
+
+/**
+ * Collects the segments of every page together with their current
+ * translation, for exchange formats used by human translators (XLIFF, PO).
+ * Reviewed translations win over machine translations from the cache; no
+ * API calls are made.
+ */
+export class SegmentExporter {
+  private config: TranslatorConfig;
+  private pages: ExtractedPage[] = [];
+  private translator: Translator;
+  private reviewStore: ReviewStore;
+
+  constructor(config: TranslatorConfig) {
+    this.config = config;
+
+    const cacheManager = new CacheManager(
+      config.cache?.directory || '.translator-cache',
+      config.cache?.enabled !== false
+    );
+    this.translator = new Translator(config, { cacheManager });
+    this.reviewStore = new ReviewStore(config.review?.directory || 'reviewed-translations');
+  }
+
+  /**
+   * Extract all pages. Returns the pages that could not be read or parsed.
+   */
+  async load(): Promise<Array<{ htmlFile: string; message: string }>> {
+    const htmlProcessor = new HtmlProcessor(this.config);
+    const { pages, errors } = await extractPages(this.config, await findHtmlFiles(this.config), htmlProcessor);
+    this.pages = pages;
+
+    // The cache is keyed by source language, so resolve it the same way translate does
+    if (!this.config.sourceLanguage) {
+      this.config.sourceLanguage = detectSourceLanguage(pages);
+    }
+    excludeSourceLanguage(this.config);
+
+    return errors;
+  }
+
+  getPageCount(): number {
+    return this.pages.length;
+  }
+
+  getSourceLanguage(): string {
+    return this.config.sourceLanguage || 'en';
+  }
+
+  /**
+   * Languages to export: a comma-separated list, or every target language.
+   */
+  getLanguages(languages?: string): string[] {
+    return languages
+      ? languages.split(',').map(l => l.trim()).filter(Boolean)
+      : this.config.targetLanguages;
+  }
+
+  async getFiles(language: string): Promise<Array<{ path: string; segments: ExportedSegment[] }>> {
+    const texts = Array.from(new Set(this.pages.flatMap(page => Array.from(page.mapping.values()))));
+    const machine = await this.translator.getCachedTranslations(texts, language);
+    const { siteMapping } = buildSiteMapping(this.pages);
+    const reviewed = (await this.reviewStore.resolve(siteMapping, language)).translations;
+
+    return this.pages.map(page => ({
+      path: page.htmlFile,
+      segments: Array.from(page.mapping.entries()).map(([key, source]) => {
+        const review = reviewed[getSegmentId(page.htmlFile, key)];
+        if (review !== undefined) {
+          return { key, source, translation: review, reviewed: true };
+        }
+        return { key, source, translation: machine[source], reviewed: false };
+      }),
+    }));
+  }
+}
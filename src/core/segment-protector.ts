@@ -0,0 +1,88 @@
+import { TranslatorConfig } from '../types';
+
+export interface ProtectedSegment {
+  text: string;
+  tokens: Map<string, string>;
+}
+
+const TAG_PATTERN = /(<[^>]*>)/;
+const ENTITY = /&#?[a-zA-Z0-9]+;/.source;
+const PLACEHOLDER = /__SKIP_PLACEHOLDER_\d+__/.source;
+const TEMPLATE_VARIABLE = /\{\{[^{}]*\}\}/.source;
+const URL = /\b(?:https?:\/\/|www\.)[^\s<>"']*[^\s<>"'.,;:!?)]/.source;
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/.source;
+const NUMBER = /\b\d+(?:[.,:]\d+)*\b/.source;
+
+/**
+ * Replaces content the model must not touch with opaque, numbered tokens
+ * (`⟦0⟧`, `⟦1⟧`, ...) before a segment is sent for translation, and puts it
+ * back afterwards. Only text between tags is tokenized, so the markup the
+ * model sees is unchanged.
+ */
+export class SegmentProtector {
+  private pattern: RegExp;
+
+  constructor(config: TranslatorConfig) {
+    const safety = config.safety || {};
+    const alternatives = [
+      // Entities contain digits but are kept as they are
+      `(${ENTITY})`,
+      PLACEHOLDER,
+      ...(safety.protectVariables !== false ? [TEMPLATE_VARIABLE] : []),
+      ...(safety.protectUrls !== false ? [URL] : []),
+      ...(safety.protectEmails !== false ? [EMAIL] : []),
+      ...(safety.protectNumbers !== false ? [NUMBER] : []),
+    ];
+    this.pattern = new RegExp(alternatives.join('|'), 'g');
+  }
+
+  protect(text: string): ProtectedSegment {
+    const tokens = new Map<string, string>();
+
+    // Text that already looks like a token cannot be protected unambiguously
+    if (text.includes('⟦')) {
+      return { text, tokens };
+    }
+
+    const protectedText = text
+      .split(TAG_PATTERN)
+      .map(part => part.startsWith('<') ? part : part.replace(this.pattern, (match, entity) => {
+        if (entity) return match;
+        const token = `⟦${tokens.size}⟧`;
+        tokens.set(token, match);
+        return token;
+      }))
+      .join('');
+
+    return { text: protectedText, tokens };
+  }
+
+  /**
+   * Put the protected content back into a translation. Throws when a token
+   * was dropped, duplicated or invented by the model.
+   */
+  restore(segment: ProtectedSegment, translation: string): string {
+    if (segment.tokens.size === 0) {
+      return translation;
+    }
+
+    const found = translation.match(/⟦\d+⟧/g) || [];
+
+    for (const [token, original] of segment.tokens.entries()) {
+      const count = found.filter(t => t === token).length;
+      if (count === 0) {
+        throw new Error(`lost protected token ${token} ("${original}")`);
+      }
+      if (count > 1) {
+        throw new Error(`duplicated protected token ${token} ("${original}")`);
+      }
+    }
+
+    const unknown = found.find(token => !segment.tokens.has(token));
+    if (unknown) {
+      throw new Error(`unknown protected token ${unknown}`);
+    }
+
+    return translation.replace(/⟦\d+⟧/g, token => segment.tokens.get(token) as string);
+  }
+}
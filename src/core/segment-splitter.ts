@@ -0,0 +1,70 @@
+import * as cheerio from 'cheerio';
+import { estimateTokens } from '../utils/tokens';
+
+// Sentence end followed by whitespace; the whitespace stays with the sentence
+const SENTENCE_BOUNDARY = /(?<=[.!?。！？]["')\]]?\s+)/;
+
+/**
+ * Split an oversized segment into parts of at most `maxTokens` estimated
+ * tokens, so that `parts.join('') === html`. Parts break between child
+ * elements and between sentences of text. A child element that is too large
+ * on its own is opened up: its start and end tags become markup-only parts
+ * and its content is split recursively. Parts are never cut inside a tag.
+ */
+export function splitSegment(html: string, maxTokens: number): string[] {
+  const $ = cheerio.load(html, { decodeEntities: false, sourceCodeLocationInfo: true } as any, false);
+  const parts: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current) parts.push(current);
+    current = '';
+  };
+
+  const add = (unit: string) => {
+    if (current && estimateTokens(current + unit) > maxTokens) {
+      flush();
+    }
+    current += unit;
+  };
+
+  $.root().contents().each((_, node: any) => {
+    const location = node.sourceCodeLocation;
+    if (!location) return;
+
+    const raw = html.slice(location.startOffset, location.endOffset);
+
+    if (node.type === 'text') {
+      for (const sentence of raw.split(SENTENCE_BOUNDARY)) {
+        add(sentence);
+      }
+      return;
+    }
+
+    if (node.type === 'tag' && estimateTokens(raw) > maxTokens && location.startTag && location.endTag) {
+      flush();
+      parts.push(html.slice(location.startTag.startOffset, location.startTag.endOffset));
+      parts.push(...splitSegment(
+        html.slice(location.startTag.endOffset, location.endTag.startOffset),
+        maxTokens
+      ));
+      parts.push(html.slice(location.endTag.startOffset, location.endTag.endOffset));
+      return;
+    }
+
+    add(raw);
+  });
+
+  flush();
+
+  // Anything the parser did not report (unlikely) must not be lost
+  return parts.join('') === html ? parts : [html];
+}
+
+/**
+ * Whether a part has text worth translating, as opposed to bare markup or
+ * whitespace between the parts.
+ */
+export function hasTranslatableText(part: string): boolean {
+  return part.replace(/<[^>]*>/g, '').trim().length > 0;
+}
@@ -0,0 +1,187 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import { TranslatorConfig } from '../types';
+import { getPageUrl, getXDefaultUrl } from '../utils/urls';
+import { escapeXml } from '../utils/xml';
+
+// Protocol limit for a single sitemap file
+const MAX_URLS_PER_SITEMAP = 50000;
+
+interface SitemapEntry {
+  loc: string;
+  lastmod?: string;
+  changefreq?: string;
+  priority?: string;
+  alternates: Array<{ hreflang: string; href: string }>;
+}
+
+export class SitemapGenerator {
+  private config: TranslatorConfig;
+
+  constructor(config: TranslatorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Write sitemap.xml (or a sitemap index with one sitemap per language)
+   * to outputDir. `translatedPages` maps each language to the pages that
+   * were written for it. Returns the paths of the written files.
+   */
+  async generate(
+    pages: string[],
+    translatedPages: Map<string, Set<string>>,
+    sourceLanguage: string
+  ): Promise<string[]> {
+    const baseUrl = this.config.seo?.baseUrl;
+    if (!baseUrl) {
+      throw new Error('seo.baseUrl is required to generate a sitemap.');
+    }
+
+    const existing = await this.readExistingSitemap();
+    const entriesByLanguage = new Map<string, SitemapEntry[]>();
+    const languages = [sourceLanguage, ...Array.from(translatedPages.keys())];
+
+    for (const page of pages) {
+      const sourcePath = path.join(path.resolve(this.config.sourceDir), page);
+      const sourceUrl = getPageUrl(this.config, page);
+      const existingEntry = existing.get(sourceUrl);
+      const lastmod = existingEntry?.lastmod || await this.getLastModified(sourcePath);
+
+      // Alternates shared by every language version of this page
+      const alternates = [{ hreflang: sourceLanguage, href: sourceUrl }];
+      for (const [language, written] of translatedPages.entries()) {
+        if (written.has(page)) {
+          alternates.push({ hreflang: language, href: getPageUrl(this.config, page, language) });
+        }
+      }
+      alternates.push({
+        hreflang: 'x-default',
+        href: getXDefaultUrl(this.config, page, sourceLanguage),
+      });
+
+      for (const { hreflang, href } of alternates) {
+        if (hreflang === 'x-default') continue;
+
+        const entries = entriesByLanguage.get(hreflang) || [];
+        entries.push({
+          loc: href,
+          lastmod,
+          changefreq: existingEntry?.changefreq,
+          priority: existingEntry?.priority,
+          alternates,
+        });
+        entriesByLanguage.set(hreflang, entries);
+      }
+
+      existing.delete(sourceUrl);
+    }
+
+    // Keep entries of the existing sitemap that are not translated pages
+    const sourceEntries = entriesByLanguage.get(sourceLanguage) || [];
+    sourceEntries.push(...existing.values());
+    entriesByLanguage.set(sourceLanguage, sourceEntries);
+
+    const outputDir = this.config.outputDir;
+    const filename = this.config.seo?.sitemap?.filename || 'sitemap.xml';
+    const splitThreshold = this.config.seo?.sitemap?.splitThreshold ?? 10;
+    const totalUrls = Array.from(entriesByLanguage.values()).reduce((sum, e) => sum + e.length, 0);
+
+    await fs.ensureDir(outputDir);
+
+    if (languages.length <= splitThreshold && totalUrls <= MAX_URLS_PER_SITEMAP) {
+      const allEntries = languages.flatMap(language => entriesByLanguage.get(language) || []);
+      const sitemapPath = path.join(outputDir, filename);
+      await fs.writeFile(sitemapPath, this.buildUrlSet(allEntries), 'utf-8');
+      return [sitemapPath];
+    }
+
+    // Too many languages or URLs: one or more sitemaps per language plus an index
+    const written: string[] = [];
+    const sitemapUrls: string[] = [];
+    const stem = filename.replace(/\.xml$/i, '');
+
+    for (const language of languages) {
+      const entries = entriesByLanguage.get(language) || [];
+      for (let i = 0; i < entries.length; i += MAX_URLS_PER_SITEMAP) {
+        const part = i === 0 ? '' : `-${i / MAX_URLS_PER_SITEMAP + 1}`;
+        const childName = `${stem}-${language}${part}.xml`;
+        const childPath = path.join(outputDir, childName);
+        await fs.writeFile(childPath, this.buildUrlSet(entries.slice(i, i + MAX_URLS_PER_SITEMAP)), 'utf-8');
+        written.push(childPath);
+        sitemapUrls.push(`${baseUrl.replace(/\/$/, '')}/${childName}`);
+      }
+    }
+
+    const indexPath = path.join(outputDir, filename);
+    await fs.writeFile(indexPath, this.buildIndex(sitemapUrls), 'utf-8');
+    written.unshift(indexPath);
+
+    return written;
+  }
+
+  private async readExistingSitemap(): Promise<Map<string, SitemapEntry>> {
+    const entries = new Map<string, SitemapEntry>();
+    const filename = this.config.seo?.sitemap?.filename || 'sitemap.xml';
+    const existingPath = path.join(path.resolve(this.config.sourceDir), filename);
+
+    if (!await fs.pathExists(existingPath)) {
+      return entries;
+    }
+
+    const $ = cheerio.load(await fs.readFile(existingPath, 'utf-8'), { xmlMode: true });
+    $('url').each((_, elem) => {
+      const $elem = $(elem);
+      const loc = $elem.children('loc').text().trim();
+      if (!loc) return;
+
+      entries.set(loc, {
+        loc,
+        lastmod: $elem.children('lastmod').text().trim() || undefined,
+        changefreq: $elem.children('changefreq').text().trim() || undefined,
+        priority: $elem.children('priority').text().trim() || undefined,
+        alternates: [],
+      });
+    });
+
+    return entries;
+  }
+
+  private async getLastModified(filePath: string): Promise<string | undefined> {
+    try {
+      const stats = await fs.stat(filePath);
+      return stats.mtime.toISOString().split('T')[0];
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private buildUrlSet(entries: SitemapEntry[]): string {
+    const urls = entries.map(entry => {
+      const lines = [`    <loc>${escapeXml(entry.loc)}</loc>`];
+      if (entry.lastmod) lines.push(`    <lastmod>${escapeXml(entry.lastmod)}</lastmod>`);
+      if (entry.changefreq) lines.push(`    <changefreq>${escapeXml(entry.changefreq)}</changefreq>`);
+      if (entry.priority) lines.push(`    <priority>${escapeXml(entry.priority)}</priority>`);
+      for (const alternate of entry.alternates) {
+        lines.push(
+          `    <xhtml:link rel="alternate" hreflang="${escapeXml(alternate.hreflang)}" href="${escapeXml(alternate.href)}" />`
+        );
+      }
+      return `  <url>\n${lines.join('\n')}\n  </url>`;
+    });
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">\n' +
+      urls.join('\n') + '\n' +
+      '</urlset>\n';
+  }
+
+  private buildIndex(sitemapUrls: string[]): string {
+    const sitemaps = sitemapUrls.map(url => `  <sitemap>\n    <loc>${escapeXml(url)}</loc>\n  </sitemap>`);
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n' +
+      sitemaps.join('\n') + '\n' +
+      '</sitemapindex>\n';
+  }
+}
@@ -1,127 +1,124 @@
-import OpenAI from 'openai';
-import { TranslatorConfig } from '../types';
+import * as crypto from 'crypto';
+import pLimit from 'p-limit';
+import {
+  TranslatorConfig,
+  TranslationProvider,
+  SegmentCacheKey,
+  SegmentValidationFailure,
+  TokenUsage,
+  ModelPricing,
+  CostEntry,
+  LanguageCost,
+  TranslationEstimate,
+} from '../types';
+import { CacheManager } from '../utils/cache';
+import { OverrideManager } from '../utils/overrides';
+import { estimateTokens, countTokens } from '../utils/tokens';
+import { createProvider } from './providers';
+import { validateFragment } from './fragment-validator';
+import { SegmentProtector, ProtectedSegment } from './segment-protector';
+import { splitSegment, hasTranslatableText } from './segment-splitter';
+import { getModelLimits, getModelPricing, calculateCost } from './models';
+
+// Translations can be considerably longer than their source (e.g. English to German or Japanese)
+const OUTPUT_TOKEN_RATIO = 2;
+const PROMPT_OVERHEAD_TOKENS = 1000;
+const DEFAULT_BATCH_TOKENS = 4000;
+const DEFAULT_BATCH_SEGMENTS = 40;
 
 export class Translator {
-  private openai: OpenAI;
+  private provider?: TranslationProvider;
   private config: TranslatorConfig;
+  private cacheManager?: CacheManager;
+  private overrides?: OverrideManager;
   private tokensUsed: number = 0;
-
-  constructor(config: TranslatorConfig) {
+  private usage: TokenUsage = emptyUsage();
+  private usageByLanguage: Map<string, Map<string, TokenUsage>> = new Map();
+  private validationFailures: SegmentValidationFailure[] = [];
+  private reservedCost: number = 0;
+  private estimatedSpend: number = 0;
+  private budgetExhausted: boolean = false;
+  private budgetSkipped: Map<string, Set<string>> = new Map();
+  private calibration?: Promise<void>;
+  private calibrated: boolean = false;
+  private failedSegments: Map<string, Map<string, string>> = new Map();
+  private protector: SegmentProtector;
+
+  constructor(
+    config: TranslatorConfig,
+    options: { provider?: TranslationProvider; cacheManager?: CacheManager; overrides?: OverrideManager } = {}
+  ) {
     this.config = config;
+    this.provider = options.provider;
+    this.cacheManager = options.cacheManager;
+    this.overrides = options.overrides;
+    this.protector = new SegmentProtector(config);
+  }
 
-    if (!config.openaiApiKey) {
-      throw new Error('OpenAI API key is required. Set it in config or OPENAI_API_KEY environment variable.');
+  // Created on first use so cache-only callers (exports) need no API key
+  private getProvider(): TranslationProvider {
+    if (!this.provider) {
+      this.provider = createProvider(this.config);
     }
-
-    this.openai = new OpenAI({
-      apiKey: config.openaiApiKey,
-    });
+    return this.provider;
   }
 
   async translateBatch(
     texts: string[],
     targetLanguage: string,
-    context?: { isTitle?: boolean; isMeta?: boolean; isHtmlBlock?: boolean }
+    context?: { isTitle?: boolean; isMeta?: boolean; isHtmlBlock?: boolean },
+    usage?: TokenUsage
   ): Promise<Record<string, string>> {
     if (texts.length === 0) {
       return {};
     }
 
-    const glossaryPrompt = this.buildGlossaryPrompt(targetLanguage);
-    const contextPrompt = this.buildContextPrompt(context);
-
-    const systemPrompt = `You are a professional translator specializing in website localization.
-${contextPrompt}
-${glossaryPrompt}
-Critical Rules:
-1. Input texts may contain HTML tags (e.g., <a>, <b>, <strong>, <em>, <span>, <br>, etc.)
-2. NEVER modify HTML tag structure, tag names, or attributes - ONLY translate text content
-3. Preserve all HTML tags EXACTLY as they appear in the input
-4. Translate text inside and between HTML tags while keeping the tags completely intact
-5. Example: "<a href='/login'>Login here</a>" → "<a href='/login'>ここでログイン</a>"
-6. Example: "Click <b>here</b> to continue." → "続けるには<b>こちら</b>をクリックしてください。"
-7. Maintain the original tone and style of the content
-8. Do not translate technical terms that should remain in English (like brand names, unless specified in glossary)
-9. For SEO elements (titles, meta descriptions), optimize for the target language's search patterns
-10. Preserve any HTML entities or special characters exactly as they appear
-11. Keep translations natural and culturally appropriate for ${targetLanguage}
-12. IMPORTANT: Return a JSON object with a "translations" array containing translations IN THE EXACT SAME ORDER as the input array
-13. The number of translations MUST equal the number of input texts`;
-
-    const userPrompt = `Translate the following ${texts.length} texts to ${targetLanguage}.
-
-CRITICAL: Return a JSON object with this EXACT structure:
-{
-  "translations": [
-    "translation of text 0",
-    "translation of text 1",
-    "translation of text 2",
-    ...
-  ]
-}
-
-The "translations" array MUST contain exactly ${texts.length} items in the same order as the input.
-
-Input texts (array of ${texts.length} items):
-${JSON.stringify(texts, null, 2)}`;
+    const { systemPrompt, userPrompt } = this.buildPrompts(texts, targetLanguage, context);
 
     let retries = 0;
     const maxRetries = 3;
 
     while (retries < maxRetries) {
       try {
-        // Calculate appropriate max_tokens: input length * 10 for safety margin
-        const estimatedOutputTokens = Math.max(2000, texts.join('').length * 10);
-        const maxTokens = Math.min(16000, estimatedOutputTokens);
+        const maxTokens = this.getMaxTokens(texts);
 
-        const response = await this.openai.chat.completions.create({
+        const response = await this.getProvider().translate({
+          texts,
+          targetLanguage,
           model: this.config.openaiModel || 'gpt-4o-mini',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt }
-          ],
-          temperature: 0.3,
-          max_tokens: maxTokens,
-          response_format: { type: "json_object" },
+          systemPrompt,
+          userPrompt,
+          maxTokens,
         });
 
-        const content = response.choices[0]?.message?.content || '';
-
         // Track token usage for cost estimation
-        if (response.usage) {
-          this.tokensUsed += response.usage.total_tokens;
-        }
-
-        // Parse JSON response with error handling
-        let parsed: { translations: string[] };
-        try {
-          parsed = JSON.parse(content);
-
-          // Validate response structure
-          if (!parsed.translations || !Array.isArray(parsed.translations)) {
-            throw new Error('Response missing "translations" array or translations is not an array');
-          }
-
-          // Validate array length
-          if (parsed.translations.length !== texts.length) {
-            console.warn(`Translation count mismatch: expected ${texts.length}, got ${parsed.translations.length}`);
-            // Pad with original texts if needed
-            while (parsed.translations.length < texts.length) {
-              const missingIndex = parsed.translations.length;
-              const originalText = texts[missingIndex] || '';
-              parsed.translations.push(originalText);
-              console.warn(`Added missing translation at index ${missingIndex}: ${originalText}`);
-            }
+        this.tokensUsed += response.tokensUsed;
+        const responseUsage = response.usage || {
+          promptTokens: response.tokensUsed,
+          completionTokens: 0,
+          cachedPromptTokens: 0,
+        };
+        addUsage(this.usage, responseUsage);
+        if (usage) addUsage(usage, responseUsage);
+
+        const translations = [...response.translations];
+
+        // Validate array length
+        if (translations.length !== texts.length) {
+          console.warn(`Translation count mismatch: expected ${texts.length}, got ${translations.length}`);
+          // Pad with original texts if needed
+          while (translations.length < texts.length) {
+            const missingIndex = translations.length;
+            const originalText = texts[missingIndex] || '';
+            translations.push(originalText);
+            console.warn(`Added missing translation at index ${missingIndex}: ${originalText}`);
           }
-        } catch (parseError) {
-          console.error('Failed to parse JSON response:', content);
-          throw new Error(`Invalid JSON response from OpenAI API: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`);
         }
 
         // Create mapping using array index
         const result: Record<string, string> = {};
         texts.forEach((text, index) => {
-          result[text] = parsed.translations[index] || text;
+          result[text] = translations[index] || text;
         });
 
         return result;
@@ -150,38 +147,627 @@ ${JSON.stringify(texts, null, 2)}`;
   async translateTexts(
     texts: string[],
     targetLanguage: string,
-    mapping: Map<string, string>
+    mapping: Map<string, string>,
+    segmentStats?: { cached: number; translated: number; overridden: number },
+    scopes?: Map<string, string[]>
   ): Promise<Record<string, string>> {
-    const uniqueTexts = Array.from(new Set(texts));
-    const batchSize = 20; // Reduced batch size for better translation quality
-    const translatedTexts: Record<string, string> = {};
-
-    for (let i = 0; i < uniqueTexts.length; i += batchSize) {
-      const batch = uniqueTexts.slice(i, i + batchSize);
-
-      // Determine context based on keys
-      const context: any = {};
-      for (const [key, value] of mapping.entries()) {
-        if (batch.includes(value)) {
-          if (key === '__TITLE__') context.isTitle = true;
-          if (key.startsWith('__META_')) context.isMeta = true;
-          if (key.startsWith('__BLOCK_')) context.isHtmlBlock = true;
+    const plan = await this.planTranslation(texts, targetLanguage, mapping, scopes);
+    const { overridden, translatedTexts, splitSegments, origins, keysByText } = plan;
+
+    if (segmentStats) {
+      segmentStats.overridden += Object.keys(overridden).length;
+      segmentStats.cached += plan.cachedCount;
+      segmentStats.translated += plan.uniqueCount;
+    }
+
+    const cacheKey = this.getSegmentCacheKey(targetLanguage);
+
+    // Batches of one call run concurrently, bounded by the parallel limit
+    const limit = pLimit(this.config.parallel?.limit || 5);
+    const tasks = [];
+    const failed = new Map<string, { source: string; translation: string; reason: string }>();
+
+    const skipped = new Set<string>();
+    const errors = new Map<string, string>();
+
+    for (const batch of plan.batches) {
+      const context = this.getBatchContext(batch, origins, mapping);
+
+      tasks.push(limit(async () => {
+        // Under a budget, the first request runs alone so the others are
+        // checked against real usage
+        const budgeted = this.config.budget?.maxCost !== undefined;
+        let settleCalibration: (() => void) | undefined;
+        if (budgeted && !this.calibrated) {
+          if (this.calibration) {
+            await this.calibration;
+          } else {
+            this.calibration = new Promise(resolve => { settleCalibration = resolve; });
+          }
+        }
+
+        const reservation = this.reserveBudget(batch, targetLanguage, context);
+        if (reservation === null) {
+          batch.forEach(text => skipped.add(text));
+          this.settleCalibration(settleCalibration);
+          return;
+        }
+
+        try {
+          const usage = emptyUsage();
+          const { valid, failures } = await this.translateValidated(batch, targetLanguage, context, usage);
+          Object.assign(translatedTexts, valid);
+          this.attributeUsage(targetLanguage, batch, usage, origins, keysByText);
+
+          for (const failure of failures) {
+            failed.set(failure.source, failure);
+          }
+
+          if (this.cacheManager) {
+            await this.cacheManager.setSegments(valid, targetLanguage, cacheKey);
+          }
+        } catch (error) {
+          // A failed request only affects the pages using its segments
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          batch.forEach(text => errors.set(text, message));
+        } finally {
+          this.reservedCost -= reservation.reserved;
+          this.estimatedSpend += reservation.estimated;
+          this.settleCalibration(settleCalibration);
         }
+      }));
+    }
+
+    await Promise.all(tasks);
+
+    // Segments (or parts of them) never sent because the budget ran out keep their source text
+    for (const text of skipped) {
+      const keys = keysByText.get(origins.get(text) ?? text) || [];
+      const languageSkipped = this.budgetSkipped.get(targetLanguage) || new Set<string>();
+      keys.forEach(key => languageSkipped.add(key));
+      this.budgetSkipped.set(targetLanguage, languageSkipped);
+    }
+
+    // Segments of failed requests keep their source text; a later call for
+    // the same keys replaces their outcome
+    const languageFailed = this.failedSegments.get(targetLanguage) || new Map<string, string>();
+    for (const key of mapping.keys()) {
+      languageFailed.delete(key);
+    }
+    for (const [text, message] of errors) {
+      for (const key of keysByText.get(origins.get(text) ?? text) || []) {
+        languageFailed.set(key, message);
       }
+    }
+    this.failedSegments.set(targetLanguage, languageFailed);
+
+    for (const [text, parts] of splitSegments.entries()) {
+      if (parts.some(part => skipped.has(part) || errors.has(part))) continue;
 
-      const batchTranslations = await this.translateBatch(batch, targetLanguage, context);
-      Object.assign(translatedTexts, batchTranslations);
+      const failedPart = parts.find(part => failed.has(part));
+      if (failedPart) {
+        const failure = failed.get(failedPart) as { translation: string; reason: string };
+        failed.set(text, { source: text, translation: failure.translation, reason: `in part "${failedPart.trim().slice(0, 40)}…": ${failure.reason}` });
+        continue;
+      }
+
+      translatedTexts[text] = parts
+        .map(part => hasTranslatableText(part) ? keepWhitespace(part, translatedTexts[part] ?? part) : part)
+        .join('');
+
+      if (this.cacheManager) {
+        await this.cacheManager.setSegments({ [text]: translatedTexts[text] as string }, targetLanguage, cacheKey);
+      }
+    }
+
+    // Segments that failed validation keep their source text and are not cached
+    for (const failure of failed.values()) {
+      const segments = keysByText.get(failure.source) || [];
+      if (segments.length > 0) {
+        this.validationFailures.push({ language: targetLanguage, segments, ...failure });
+      }
     }
 
     // Map back using original keys
     const result: Record<string, string> = {};
     for (const [key, originalText] of mapping.entries()) {
-      result[key] = translatedTexts[originalText] || originalText;
+      result[key] = overridden[key] ?? (translatedTexts[originalText] || originalText);
     }
 
     return result;
   }
 
+  /**
+   * Estimate the requests and tokens `translateTexts` would need, using the
+   * same overrides, cache lookups, splitting and batching. Prompt tokens are
+   * counted on the actual prompts; completions are assumed to be about as
+   * long as their source. Retries are not included.
+   */
+  async estimateTranslation(
+    texts: string[],
+    targetLanguage: string,
+    mapping: Map<string, string>,
+    scopes?: Map<string, string[]>
+  ): Promise<TranslationEstimate> {
+    const plan = await this.planTranslation(texts, targetLanguage, mapping, scopes);
+    const usage = emptyUsage();
+    const files = new Set<string>();
+
+    for (const batch of plan.batches) {
+      addUsage(usage, this.estimateBatchUsage(batch, targetLanguage, this.getBatchContext(batch, plan.origins, mapping)));
+
+      for (const text of batch) {
+        for (const key of plan.keysByText.get(plan.origins.get(text) ?? text) || []) {
+          files.add(getFileFromKey(key) || '');
+        }
+      }
+    }
+
+    usage.promptTokens = Math.round(usage.promptTokens);
+    usage.completionTokens = Math.round(usage.completionTokens);
+
+    return {
+      segments: mapping.size,
+      overridden: Object.keys(plan.overridden).length,
+      cached: plan.cachedCount,
+      toTranslate: plan.uniqueCount,
+      files: Array.from(files).sort(),
+      apiCalls: plan.batches.length,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      cost: calculateCost(usage, this.getPricing()),
+    };
+  }
+
+  /**
+   * Tokens one request is expected to use: the actual prompt, counted with
+   * the model's tokenizer, and a completion about as long as the
+   * (protected) source texts.
+   */
+  private estimateBatchUsage(
+    batch: string[],
+    targetLanguage: string,
+    context: { isTitle?: boolean; isMeta?: boolean; isHtmlBlock?: boolean }
+  ): TokenUsage {
+    const segments = batch.map(text => this.protector.protect(text).text);
+    const { systemPrompt, userPrompt } = this.buildPrompts(segments, targetLanguage, context);
+    const model = this.config.openaiModel || 'gpt-4o-mini';
+
+    return {
+      promptTokens: countTokens(systemPrompt, model) + countTokens(userPrompt, model),
+      completionTokens: countTokens(JSON.stringify({ translations: segments }), model),
+      cachedPromptTokens: 0,
+    };
+  }
+
+  /**
+   * Check a batch against `budget.maxCost` before it is sent. The projected
+   * spend is the cost so far, plus batches still in flight, plus this one.
+   * A batch reserves what its request costs when the completion uses all of
+   * `max_tokens`, or its estimate scaled up by how far real usage has
+   * exceeded estimates so far (validation retries), whichever is higher.
+   * Returns the estimated and reserved cost of the batch, or null when it
+   * would exceed the cap; from then on no further batch is sent.
+   */
+  private reserveBudget(
+    batch: string[],
+    targetLanguage: string,
+    context: { isTitle?: boolean; isMeta?: boolean; isHtmlBlock?: boolean }
+  ): { estimated: number; reserved: number } | null {
+    const maxCost = this.config.budget?.maxCost;
+    if (maxCost === undefined) return { estimated: 0, reserved: 0 };
+    if (this.budgetExhausted) return null;
+
+    const spent = this.estimateCost();
+    const usage = this.estimateBatchUsage(batch, targetLanguage, context);
+    const estimated = calculateCost(usage, this.getPricing());
+    const ceiling = calculateCost(
+      { ...usage, completionTokens: this.getMaxTokens(batch.map(text => this.protector.protect(text).text)) },
+      this.getPricing()
+    );
+    const correction = this.estimatedSpend > 0 ? Math.max(1, spent / this.estimatedSpend) : 1;
+    const reserved = Math.max(ceiling, estimated * correction);
+
+    if (spent + this.reservedCost + reserved > maxCost) {
+      this.budgetExhausted = true;
+      return null;
+    }
+
+    this.reservedCost += reserved;
+    return { estimated, reserved };
+  }
+
+  /**
+   * Let requests waiting for the first real usage go ahead.
+   */
+  private settleCalibration(settle?: () => void): void {
+    if (settle) {
+      this.calibrated = true;
+      settle();
+    }
+  }
+
+  /**
+   * The completion limit of a request: room for the translations plus the
+   * JSON wrapping each of them.
+   */
+  private getMaxTokens(texts: string[]): number {
+    const limits = getModelLimits(this.config.openaiModel || 'gpt-4o-mini');
+    const estimatedOutputTokens = texts.reduce(
+      (sum, text) => sum + estimateTokens(text) * OUTPUT_TOKEN_RATIO + 10,
+      200
+    );
+    return Math.min(limits.maxOutputTokens, Math.max(1000, Math.ceil(estimatedOutputTokens)));
+  }
+
+  /**
+   * Work out what a translation run has to do without calling the API:
+   * which segments are overridden or cached, how oversized segments are
+   * split, and how the remaining segments are packed into requests.
+   */
+  private async planTranslation(
+    texts: string[],
+    targetLanguage: string,
+    mapping: Map<string, string>,
+    scopes?: Map<string, string[]>
+  ): Promise<{
+    overridden: Record<string, string>;
+    translatedTexts: Record<string, string>;
+    cachedCount: number;
+    uniqueCount: number;
+    splitSegments: Map<string, string[]>;
+    origins: Map<string, string>;
+    keysByText: Map<string, string[]>;
+    batches: string[][];
+  }> {
+    // Manual overrides replace segments outright and never reach the cache or the API
+    const overridden = await this.resolveOverrides(targetLanguage, mapping, scopes);
+    if (Object.keys(overridden).length > 0) {
+      const pending = new Set<string>();
+      for (const [key, text] of mapping.entries()) {
+        if (!(key in overridden)) pending.add(text);
+      }
+      texts = texts.filter(text => pending.has(text));
+    }
+
+    const cacheKey = this.getSegmentCacheKey(targetLanguage);
+    const translatedTexts: Record<string, string> = this.cacheManager
+      ? await this.cacheManager.getSegments(texts, targetLanguage, cacheKey)
+      : {};
+    const cachedCount = Object.keys(translatedTexts).length;
+
+    // Only segments missing from the translation memory go to the API
+    const uniqueTexts = Array.from(new Set(texts)).filter(text => !(text in translatedTexts));
+
+    // Segments too large for one request are translated in parts and reassembled
+    const budget = this.getBatchBudget();
+    const splitSegments = new Map<string, string[]>();
+    const origins = new Map<string, string>();
+    for (const text of uniqueTexts) {
+      const parts = estimateTokens(text) > budget.maxTokens ? splitSegment(text, budget.maxTokens) : [text];
+      if (parts.length > 1) {
+        splitSegments.set(text, parts);
+      }
+      for (const part of parts) {
+        if (!origins.has(part) && hasTranslatableText(part)) {
+          origins.set(part, text);
+        }
+      }
+    }
+
+    if (this.cacheManager && splitSegments.size > 0) {
+      const parts = Array.from(origins.keys()).filter(part => !(part in translatedTexts));
+      Object.assign(translatedTexts, await this.cacheManager.getSegments(parts, targetLanguage, cacheKey));
+    }
+    const pending = Array.from(origins.keys()).filter(text => !(text in translatedTexts));
+
+    const keysByText = new Map<string, string[]>();
+    for (const [key, text] of mapping.entries()) {
+      keysByText.set(text, [...(keysByText.get(text) || []), key]);
+    }
+
+    return {
+      overridden,
+      translatedTexts,
+      cachedCount,
+      uniqueCount: uniqueTexts.length,
+      splitSegments,
+      origins,
+      keysByText,
+      batches: this.packBatches(pending, budget),
+    };
+  }
+
+  /**
+   * Prompt context of a batch, from the keys of the segments it contains.
+   */
+  private getBatchContext(
+    batch: string[],
+    origins: Map<string, string>,
+    mapping: Map<string, string>
+  ): { isTitle?: boolean; isMeta?: boolean; isHtmlBlock?: boolean } {
+    const batchSet = new Set(batch.map(text => origins.get(text)));
+    const context: { isTitle?: boolean; isMeta?: boolean; isHtmlBlock?: boolean } = {};
+
+    for (const [key, value] of mapping.entries()) {
+      if (batchSet.has(value)) {
+        // Keys may carry a file prefix when segments are collected site-wide
+        if (key.endsWith('__TITLE__')) context.isTitle = true;
+        if (key.includes('__META_')) context.isMeta = true;
+        if (key.includes('__BLOCK_')) context.isHtmlBlock = true;
+      }
+    }
+
+    return context;
+  }
+
+  /**
+   * Input tokens per request and segments per request. Derived from the
+   * model's output limit, since translations come back at least as long as
+   * their source, and capped by the `batching` config.
+   */
+  private getBatchBudget(): { maxTokens: number; maxSegments: number } {
+    const limits = getModelLimits(this.config.openaiModel || 'gpt-4o-mini');
+    const modelBudget = Math.floor(Math.min(
+      limits.maxOutputTokens / OUTPUT_TOKEN_RATIO,
+      (limits.contextWindow - limits.maxOutputTokens - PROMPT_OVERHEAD_TOKENS) / 2
+    ));
+
+    return {
+      maxTokens: Math.min(modelBudget, this.config.batching?.maxTokens || DEFAULT_BATCH_TOKENS),
+      maxSegments: this.config.batching?.maxSegments || DEFAULT_BATCH_SEGMENTS,
+    };
+  }
+
+  /**
+   * Pack segments into batches in order, closing a batch when the next
+   * segment would exceed the token or segment budget.
+   */
+  private packBatches(texts: string[], budget: { maxTokens: number; maxSegments: number }): string[][] {
+    const batches: string[][] = [];
+    let current: string[] = [];
+    let tokens = 0;
+
+    for (const text of texts) {
+      const textTokens = estimateTokens(text);
+      if (current.length > 0 && (current.length >= budget.maxSegments || tokens + textTokens > budget.maxTokens)) {
+        batches.push(current);
+        current = [];
+        tokens = 0;
+      }
+      current.push(text);
+      tokens += textTokens;
+    }
+
+    if (current.length > 0) {
+      batches.push(current);
+    }
+    return batches;
+  }
+
+  /**
+   * Translate a batch with protected content tokenized, then restore each
+   * segment and check that it kept the markup of its source. Segments that
+   * fail are retried one at a time, since a smaller request is more likely
+   * to come back intact; those still broken are returned as failures.
+   */
+  private async translateValidated(
+    texts: string[],
+    targetLanguage: string,
+    context: { isTitle?: boolean; isMeta?: boolean; isHtmlBlock?: boolean },
+    usage: TokenUsage
+  ): Promise<{
+    valid: Record<string, string>;
+    failures: Array<{ source: string; translation: string; reason: string }>;
+  }> {
+    const valid: Record<string, string> = {};
+    const failures: Array<{ source: string; translation: string; reason: string }> = [];
+    const results = await this.translateProtected(texts, targetLanguage, context, usage);
+
+    for (const source of texts) {
+      const { translation, problem } = results[source] as { translation: string; problem: string | null };
+      if (!problem) {
+        valid[source] = translation;
+        continue;
+      }
+
+      let retry: { translation: string; problem: string | null } | undefined;
+      try {
+        retry = (await this.translateProtected([source], targetLanguage, context, usage))[source];
+      } catch (error) {
+        // Keep the original problem; the segment falls back to its source text
+      }
+
+      if (retry && !retry.problem) {
+        valid[source] = retry.translation;
+      } else {
+        failures.push({
+          source,
+          translation: retry?.translation ?? translation,
+          reason: retry?.problem || problem,
+        });
+      }
+    }
+
+    return { valid, failures };
+  }
+
+  private async translateProtected(
+    texts: string[],
+    targetLanguage: string,
+    context: { isTitle?: boolean; isMeta?: boolean; isHtmlBlock?: boolean },
+    usage: TokenUsage
+  ): Promise<Record<string, { translation: string; problem: string | null }>> {
+    const segments = texts.map(text => this.protector.protect(text));
+    const translations = await this.translateBatch(segments.map(segment => segment.text), targetLanguage, context, usage);
+    const results: Record<string, { translation: string; problem: string | null }> = {};
+
+    texts.forEach((source, index) => {
+      const segment = segments[index] as ProtectedSegment;
+      const translation = translations[segment.text] ?? segment.text;
+
+      try {
+        const restored = this.protector.restore(segment, translation);
+        results[source] = { translation: restored, problem: validateFragment(source, restored) };
+      } catch (error) {
+        results[source] = { translation, problem: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Spread the usage of one request over the pages whose segments it
+   * translated, weighted by segment size. A segment shared by several pages
+   * is split evenly between them.
+   */
+  private attributeUsage(
+    targetLanguage: string,
+    batch: string[],
+    usage: TokenUsage,
+    origins: Map<string, string>,
+    keysByText: Map<string, string[]>
+  ): void {
+    const weights = batch.map(text => estimateTokens(text));
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+    const files = this.usageByLanguage.get(targetLanguage) || new Map<string, TokenUsage>();
+    this.usageByLanguage.set(targetLanguage, files);
+
+    batch.forEach((text, index) => {
+      const keys = keysByText.get(origins.get(text) ?? text) || [];
+      const pageFiles = keys.length > 0 ? keys.map(key => getFileFromKey(key) || '') : [''];
+      const share = (weights[index] as number) / totalWeight / pageFiles.length;
+
+      for (const file of pageFiles) {
+        const fileUsage = files.get(file) || emptyUsage();
+        addUsage(fileUsage, usage, share);
+        files.set(file, fileUsage);
+      }
+    });
+  }
+
+  /**
+   * Look up the override for every mapping key. Site-wide keys carry the
+   * page path ("<file>:<segment key>"), which file-scoped overrides match.
+   */
+  private async resolveOverrides(
+    targetLanguage: string,
+    mapping: Map<string, string>,
+    scopes?: Map<string, string[]>
+  ): Promise<Record<string, string>> {
+    const overridden: Record<string, string> = {};
+    if (!this.overrides) return overridden;
+
+    for (const [key, text] of mapping.entries()) {
+      const htmlFile = getFileFromKey(key);
+      const translation = await this.overrides.resolve(targetLanguage, text, htmlFile, scopes?.get(key) || []);
+      if (translation !== undefined) {
+        overridden[key] = translation;
+      }
+    }
+
+    return overridden;
+  }
+
+  /**
+   * Look up the current machine translations of `texts` in the translation
+   * memory without calling the API.
+   */
+  async getCachedTranslations(texts: string[], targetLanguage: string): Promise<Record<string, string>> {
+    if (!this.cacheManager) return {};
+    return this.cacheManager.getSegments(texts, targetLanguage, this.getSegmentCacheKey(targetLanguage));
+  }
+
+  /**
+   * Remove cache entries of `targetLanguage` that none of `texts` would
+   * look up, keeping the entries of the parts of oversized segments.
+   * Returns the number of entries removed, or that would be with `dryRun`.
+   */
+  async pruneCache(texts: string[], targetLanguage: string, dryRun: boolean = false): Promise<number> {
+    if (!this.cacheManager) return 0;
+
+    const budget = this.getBatchBudget();
+    const keep = new Set<string>();
+    for (const text of texts) {
+      keep.add(text);
+      if (estimateTokens(text) > budget.maxTokens) {
+        splitSegment(text, budget.maxTokens).forEach(part => keep.add(part));
+      }
+    }
+
+    return this.cacheManager.pruneSegments(
+      Array.from(keep),
+      targetLanguage,
+      this.getSegmentCacheKey(targetLanguage),
+      dryRun
+    );
+  }
+
+  private getSegmentCacheKey(targetLanguage: string): SegmentCacheKey {
+    const glossary = this.config.glossary?.[targetLanguage] || {};
+    const glossaryVersion = crypto
+      .createHash('md5')
+      .update(JSON.stringify(Object.entries(glossary).sort(([a], [b]) => a.localeCompare(b))))
+      .digest('hex')
+      .slice(0, 12);
+
+    return {
+      sourceLanguage: this.config.sourceLanguage || 'en',
+      model: `${this.provider?.name || this.config.provider?.type || 'openai'}:${this.config.openaiModel || 'gpt-4o-mini'}`,
+      glossaryVersion,
+    };
+  }
+
+  private buildPrompts(
+    texts: string[],
+    targetLanguage: string,
+    context?: { isTitle?: boolean; isMeta?: boolean; isHtmlBlock?: boolean }
+  ): { systemPrompt: string; userPrompt: string } {
+    const glossaryPrompt = this.buildGlossaryPrompt(targetLanguage);
+    const contextPrompt = this.buildContextPrompt(context);
+    const sourceLanguage = this.config.sourceLanguage || 'en';
+
+    const systemPrompt = `You are a professional translator specializing in website localization.
+You translate from ${sourceLanguage} to ${targetLanguage}.
+${contextPrompt}
+${glossaryPrompt}
+Critical Rules:
+1. Input texts may contain HTML tags (e.g., <a>, <b>, <strong>, <em>, <span>, <br>, etc.)
+2. NEVER modify HTML tag structure, tag names, or attributes - ONLY translate text content
+3. Preserve all HTML tags EXACTLY as they appear in the input
+4. Translate text inside and between HTML tags while keeping the tags completely intact
+5. Example: "<a href='/login'>Login here</a>" → "<a href='/login'>ここでログイン</a>"
+6. Example: "Click <b>here</b> to continue." → "続けるには<b>こちら</b>をクリックしてください。"
+7. Maintain the original tone and style of the content
+8. Do not translate technical terms that should remain in English (like brand names, unless specified in glossary)
+9. For SEO elements (titles, meta descriptions), optimize for the target language's search patterns
+10. Preserve any HTML entities or special characters exactly as they appear
+11. Keep translations natural and culturally appropriate for ${targetLanguage}
+12. IMPORTANT: Return a JSON object with a "translations" array containing translations IN THE EXACT SAME ORDER as the input array
+13. The number of translations MUST equal the number of input texts
+14. Tokens like ⟦0⟧ stand for protected content (code, URLs, e-mail addresses, numbers, variables). Keep every token exactly once and unchanged; you may move it where the grammar of ${targetLanguage} requires`;
+
+    const userPrompt = `Translate the following ${texts.length} texts from ${sourceLanguage} to ${targetLanguage}.
+
+CRITICAL: Return a JSON object with this EXACT structure:
+{
+  "translations": [
+    "translation of text 0",
+    "translation of text 1",
+    "translation of text 2",
+    ...
+  ]
+}
+
+The "translations" array MUST contain exactly ${texts.length} items in the same order as the input.
+
+Input texts (array of ${texts.length} items):
+${JSON.stringify(texts, null, 2)}`;
+
+    return { systemPrompt, userPrompt };
+  }
+
   private buildGlossaryPrompt(targetLanguage: string): string {
     if (!this.config.glossary || !this.config.glossary[targetLanguage]) {
       return '';
@@ -213,13 +799,97 @@ ${JSON.stringify(texts, null, 2)}`;
     return '';
   }
 
+  getValidationFailures(): SegmentValidationFailure[] {
+    return this.validationFailures;
+  }
+
+  isBudgetExhausted(): boolean {
+    return this.budgetExhausted;
+  }
+
+  /**
+   * Mapping keys of `targetLanguage` left untranslated because the budget
+   * ran out.
+   */
+  getBudgetSkippedSegments(targetLanguage: string): string[] {
+    return Array.from(this.budgetSkipped.get(targetLanguage) || []);
+  }
+
+  /**
+   * Mapping keys of `targetLanguage` whose request failed, with the error.
+   */
+  getFailedSegments(targetLanguage: string): Map<string, string> {
+    return new Map(this.failedSegments.get(targetLanguage) || []);
+  }
+
   getTokensUsed(): number {
     return this.tokensUsed;
   }
 
+  getUsage(): TokenUsage {
+    return { ...this.usage };
+  }
+
   estimateCost(): number {
-    // Rough estimation based on GPT-4 mini pricing
-    const costPer1kTokens = 0.00015; // $0.15 per 1M tokens
-    return (this.tokensUsed / 1000) * costPer1kTokens;
+    return calculateCost(this.usage, this.getPricing());
+  }
+
+  /**
+   * Tokens and cost per language and page. Shares of shared segments make
+   * per-page token counts fractional; they are rounded for reporting.
+   */
+  getCostBreakdown(): Record<string, LanguageCost> {
+    const pricing = this.getPricing();
+    const breakdown: Record<string, LanguageCost> = {};
+
+    for (const [language, files] of this.usageByLanguage.entries()) {
+      const total = emptyUsage();
+      const fileCosts: Record<string, CostEntry> = {};
+
+      for (const [file, usage] of files.entries()) {
+        addUsage(total, usage);
+        fileCosts[file] = toCostEntry(usage, pricing);
+      }
+
+      breakdown[language] = { ...toCostEntry(total, pricing), files: fileCosts };
+    }
+
+    return breakdown;
+  }
+
+  private getPricing(): ModelPricing | undefined {
+    return getModelPricing(this.config.openaiModel || 'gpt-4o-mini', this.config.pricing);
   }
-}
\ No newline at end of file
+}
+
+// Models tend to trim the whitespace between the parts of a split segment
+function keepWhitespace(source: string, translation: string): string {
+  const leading = source.match(/^\s*/)?.[0] || '';
+  const trailing = source.match(/\s*$/)?.[0] || '';
+  return leading + translation.trim() + trailing;
+}
+
+function emptyUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, cachedPromptTokens: 0 };
+}
+
+function addUsage(target: TokenUsage, usage: TokenUsage, share: number = 1): void {
+  target.promptTokens += usage.promptTokens * share;
+  target.completionTokens += usage.completionTokens * share;
+  target.cachedPromptTokens += usage.cachedPromptTokens * share;
+}
+
+function toCostEntry(usage: TokenUsage, pricing: ModelPricing | undefined): CostEntry {
+  return {
+    promptTokens: Math.round(usage.promptTokens),
+    completionTokens: Math.round(usage.completionTokens),
+    cachedPromptTokens: Math.round(usage.cachedPromptTokens),
+    cost: calculateCost(usage, pricing),
+  };
+}
+
+// Site-wide keys carry the page path: "<file>:<segment key>"
+function getFileFromKey(key: string): string | undefined {
+  const separator = key.indexOf(':__');
+  return separator > 0 ? key.slice(0, separator) : undefined;
+}
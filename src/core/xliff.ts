@@ -0,0 +1,103 @@
+import * as cheerio from 'cheerio';
+import { escapeXml } from '../utils/xml';
+
+const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:2.0';
+
+export type XliffState = 'initial' | 'translated' | 'reviewed' | 'final';
+
+export interface XliffUnit {
+  key: string;
+  source: string;
+  target?: string;
+  state: XliffState;
+}
+
+export interface XliffDocument {
+  sourceLanguage: string;
+  targetLanguage: string;
+  files: Array<{ path: string; units: XliffUnit[] }>;
+}
+
+/**
+ * Serialize segments as an XLIFF 2.0 document. Each page becomes a <file>
+ * whose `original` is the page path; each segment becomes a <unit> whose
+ * `name` is the mapping key (`__BLOCK_3__`, `__META_DESC__`, ...). Inline
+ * HTML stays in the segment text, escaped, so it round-trips unchanged.
+ */
+export function buildXliff(document: XliffDocument): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<xliff xmlns="${XLIFF_NAMESPACE}" version="2.0" ` +
+      `srcLang="${escapeXml(document.sourceLanguage)}" trgLang="${escapeXml(document.targetLanguage)}">`,
+  ];
+
+  document.files.forEach((file, fileIndex) => {
+    lines.push(`  <file id="f${fileIndex + 1}" original="${escapeXml(file.path)}">`);
+
+    file.units.forEach((unit, unitIndex) => {
+      lines.push(`    <unit id="u${unitIndex + 1}" name="${escapeXml(unit.key)}">`);
+      lines.push(`      <segment state="${unit.state}">`);
+      lines.push(`        <source xml:space="preserve">${escapeXml(unit.source)}</source>`);
+      if (unit.target !== undefined) {
+        lines.push(`        <target xml:space="preserve">${escapeXml(unit.target)}</target>`);
+      }
+      lines.push('      </segment>');
+      lines.push('    </unit>');
+    });
+
+    lines.push('  </file>');
+  });
+
+  lines.push('</xliff>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Read an XLIFF 2.0 document written by buildXliff and edited in a CAT tool.
+ * Units are matched by `name`; units without it are ignored since they
+ * cannot be mapped back to a segment.
+ */
+export function parseXliff(xml: string): XliffDocument {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const $root = $('xliff').first();
+
+  if ($root.length === 0 || !String($root.attr('version') || '').startsWith('2.')) {
+    throw new Error('Not an XLIFF 2.0 document');
+  }
+
+  const targetLanguage = $root.attr('trgLang');
+  if (!targetLanguage) {
+    throw new Error('XLIFF document has no trgLang attribute');
+  }
+
+  const files: XliffDocument['files'] = [];
+  $root.children('file').each((_, fileElem) => {
+    const $file = $(fileElem);
+    const units: XliffUnit[] = [];
+
+    $file.find('unit').each((_, unitElem) => {
+      const $unit = $(unitElem);
+      const key = $unit.attr('name');
+      if (!key) return;
+
+      // Segmentation by the CAT tool may split a unit; join it back
+      const $segments = $unit.children('segment');
+      const source = $segments.map((_, segment) => $(segment).children('source').text()).get().join('');
+      const $targets = $segments.children('target');
+      const target = $targets.length > 0
+        ? $segments.map((_, segment) => $(segment).children('target').text()).get().join('')
+        : undefined;
+      const state = ($segments.first().attr('state') || (target !== undefined ? 'translated' : 'initial')) as XliffState;
+
+      units.push({ key, source, target, state });
+    });
+
+    files.push({ path: $file.attr('original') || '', units });
+  });
+
+  return {
+    sourceLanguage: $root.attr('srcLang') || '',
+    targetLanguage,
+    files,
+  };
+}
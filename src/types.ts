@@ -1,36 +1,195 @@
 export interface TranslatorConfig {
   sourceDir: string;
   outputDir: string;
+  sourceLanguage?: string;
   targetLanguages: string[];
   openaiApiKey?: string;
   openaiModel?: string;
+  provider?: ProviderConfig;
   glossary?: Record<string, Record<string, string>>;
   ignorePaths?: string[];
   cache?: {
     enabled?: boolean;
     directory?: string;
   };
+  review?: {
+    directory?: string;
+  };
+  overrides?: {
+    directory?: string;
+  };
+  pricing?: Record<string, ModelPricing>;
+  batching?: {
+    maxTokens?: number;
+    maxSegments?: number;
+  };
+  budget?: {
+    maxCost?: number;
+  };
   parallel?: {
     limit?: number;
   };
+  links?: {
+    rewrite?: boolean;
+  };
+  content?: {
+    mode?: 'blocks' | 'complete';
+    attributes?: Array<string | { selector: string; attribute: string }>;
+    selectors?: string[];
+    excludeSelectors?: string[];
+    noTranslateAttribute?: string;
+  };
+  jsonLd?: {
+    enabled?: boolean;
+    fields?: string[];
+  };
+  assets?: {
+    strategy?: AssetStrategy;
+    ignore?: string[];
+  };
   seo?: {
     injectHreflang?: boolean;
     localizeMetaTags?: boolean;
     baseUrl?: string;
+    xDefault?: string;
+    hreflangInSource?: boolean;
+    sitemap?: {
+      enabled?: boolean;
+      filename?: string;
+      splitThreshold?: number;
+    };
   };
   safety?: {
     preserveCodeBlocks?: boolean;
     preserveScripts?: boolean;
     preserveStyles?: boolean;
+    protectUrls?: boolean;
+    protectEmails?: boolean;
+    protectNumbers?: boolean;
+    protectVariables?: boolean;
   };
 }
 
-export interface TranslationCache {
-  hash: string;
-  translations: Record<string, string>;
+export type AssetStrategy = 'copy' | 'hardlink' | 'symlink' | 'shared' | 'none';
+
+export type ProviderType = 'openai' | 'openai-compatible' | 'stub';
+
+export interface ProviderConfig {
+  type?: ProviderType;
+  baseUrl?: string;
+  apiKey?: string;
+  stubMode?: 'echo' | 'prefix';
+}
+
+export interface ProviderRequest {
+  texts: string[];
+  targetLanguage: string;
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  maxTokens: number;
+}
+
+export interface ProviderResponse {
+  translations: string[];
+  tokensUsed: number;
+  usage?: TokenUsage;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cachedPromptTokens: number;
+}
+
+// USD per 1M tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cachedInput?: number;
+}
+
+export interface CostEntry extends TokenUsage {
+  cost: number;
+}
+
+export interface LanguageCost extends CostEntry {
+  files: Record<string, CostEntry>;
+}
+
+/**
+ * What translating one language would take, worked out without API calls.
+ */
+export interface TranslationEstimate {
+  segments: number;
+  overridden: number;
+  cached: number;
+  toTranslate: number;
+  files: string[];
+  apiCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface TranslationProvider {
+  readonly name: string;
+  translate(request: ProviderRequest): Promise<ProviderResponse>;
+}
+
+export interface SegmentCacheKey {
+  sourceLanguage: string;
+  model: string;
+  glossaryVersion: string;
+}
+
+export interface TranslationMemoryEntry {
+  translation: string;
   timestamp: number;
 }
 
+export interface TranslationMemory {
+  language: string;
+  segments: Record<string, TranslationMemoryEntry>;
+}
+
+export interface TranslationOverride {
+  source: string;
+  translation: string;
+  file?: string;
+  selector?: string;
+}
+
+export interface ReviewedTranslationEntry {
+  source: string;
+  translation: string;
+  origin: string;
+  timestamp: number;
+}
+
+export interface ReviewedTranslations {
+  language: string;
+  segments: Record<string, ReviewedTranslationEntry>;
+}
+
+export interface ExtractedPage {
+  htmlFile: string;
+  sourcePath: string;
+  language: string | null;
+  mapping: Map<string, string>;
+  processedHtml: string;
+  placeholders: Map<string, string>;
+  scopes: Map<string, string[]>;
+}
+
+export interface SegmentValidationFailure {
+  language: string;
+  segments: string[];
+  source: string;
+  translation: string;
+  reason: string;
+}
+
 export interface FileTranslationResult {
   source: string;
   target: string;
@@ -44,11 +203,47 @@ export interface TranslationStats {
   totalFiles: number;
   successfulFiles: number;
   failedFiles: number;
+  skippedFiles: number;
   totalTokens: number;
+  promptTokens: number;
+  completionTokens: number;
+  cachedPromptTokens: number;
   estimatedCost: number;
+  costByLanguage: Record<string, LanguageCost>;
   duration: number;
 }
 
+/**
+ * A page left untranslated for one language because the budget ran out.
+ */
+export interface UnfinishedPage {
+  file: string;
+  language: string;
+}
+
+/**
+ * A file result as stored in translation-report.json. Paths in `source` and
+ * `target` are relative to the working directory; `file` is relative to
+ * sourceDir.
+ */
+export interface ReportedResult extends FileTranslationResult {
+  file: string;
+}
+
+export interface TranslationReport {
+  timestamp: string;
+  stats: TranslationStats;
+  results: ReportedResult[];
+  validationFailures: SegmentValidationFailure[];
+  remaining: UnfinishedPage[];
+}
+
+/**
+ * State of one localized page: no output file yet, an output file that no
+ * longer matches its source, or an output file that is current.
+ */
+export type PageStatus = 'missing' | 'stale' | 'up-to-date';
+
 export interface HtmlElement {
   type: 'text' | 'element' | 'skip';
   content: string;
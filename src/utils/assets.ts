@@ -0,0 +1,124 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { glob } from 'glob';
+import { TranslatorConfig, AssetStrategy } from '../types';
+
+/**
+ * Find the non-HTML files of the source site (stylesheets, scripts, images,
+ * fonts, ...), relative to sourceDir.
+ */
+export async function findAssets(config: TranslatorConfig): Promise<string[]> {
+  const sourceDir = path.resolve(config.sourceDir);
+  const ignore = [
+    '**/*.html',
+    '**/*.htm',
+    ...(config.ignorePaths || []),
+    ...(config.assets?.ignore || []),
+  ];
+
+  // The generated sitemap replaces the source one
+  if (config.seo?.sitemap?.enabled !== false && config.seo?.baseUrl) {
+    ignore.push(config.seo?.sitemap?.filename || 'sitemap.xml');
+  }
+
+  const assets = await glob('**/*', {
+    cwd: sourceDir,
+    nodir: true,
+    dot: false,
+    ignore,
+  });
+
+  // Never copy the output tree or cache into itself when they live inside sourceDir
+  const excluded = [
+    path.resolve(config.outputDir),
+    path.resolve(config.cache?.directory || '.translator-cache'),
+  ];
+
+  return assets.filter(asset => {
+    const absolute = path.join(sourceDir, asset);
+    return !excluded.some(dir => absolute === dir || absolute.startsWith(dir + path.sep));
+  });
+}
+
+/**
+ * Place the source assets in the output tree according to the configured
+ * strategy: a copy, hardlink or symlink in every language folder, or a
+ * single shared copy at the root of outputDir. Returns the number of files
+ * written or linked.
+ */
+export async function deployAssets(
+  config: TranslatorConfig,
+  languages: string[]
+): Promise<number> {
+  const strategy: AssetStrategy = config.assets?.strategy || 'copy';
+  if (strategy === 'none') {
+    return 0;
+  }
+
+  const sourceDir = path.resolve(config.sourceDir);
+  const outputDir = path.resolve(config.outputDir);
+  const assets = await findAssets(config);
+  const targetRoots = strategy === 'shared'
+    ? [outputDir]
+    : languages.map(language => path.join(outputDir, language));
+
+  let written = 0;
+  for (const asset of assets) {
+    const sourcePath = path.join(sourceDir, asset);
+
+    for (const root of targetRoots) {
+      const targetPath = path.join(root, asset);
+      if (await placeAsset(sourcePath, targetPath, strategy)) {
+        written++;
+      }
+    }
+  }
+
+  return written;
+}
+
+async function placeAsset(
+  sourcePath: string,
+  targetPath: string,
+  strategy: AssetStrategy
+): Promise<boolean> {
+  await fs.ensureDir(path.dirname(targetPath));
+
+  if (strategy === 'symlink') {
+    const linkTarget = path.relative(path.dirname(targetPath), sourcePath);
+    const existing = await fs.readlink(targetPath).catch(() => null);
+    if (existing === linkTarget) {
+      return false;
+    }
+    await fs.remove(targetPath);
+    await fs.symlink(linkTarget, targetPath);
+    return true;
+  }
+
+  const sourceStats = await fs.stat(sourcePath);
+  const targetStats = await fs.lstat(targetPath).catch(() => null);
+
+  if (strategy === 'hardlink') {
+    if (targetStats && targetStats.ino === sourceStats.ino && targetStats.dev === sourceStats.dev) {
+      return false;
+    }
+    await fs.remove(targetPath);
+    try {
+      await fs.link(sourcePath, targetPath);
+      return true;
+    } catch (error) {
+      // Hardlinks cannot cross filesystems; fall back to a copy
+    }
+  } else if (targetStats) {
+    // Links left by a previous strategy must not be written through
+    if (targetStats.isSymbolicLink() || targetStats.ino === sourceStats.ino) {
+      await fs.remove(targetPath);
+    } else if (targetStats.size === sourceStats.size && targetStats.mtimeMs >= sourceStats.mtimeMs) {
+      // Unchanged since the last copy
+      return false;
+    }
+  }
+
+  await fs.copy(sourcePath, targetPath, { overwrite: true, preserveTimestamps: true });
+  return true;
+}
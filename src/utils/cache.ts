@@ -1,15 +1,19 @@
 import * as crypto from 'crypto';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { TranslationCache } from '../types';
+import { TranslationMemory, SegmentCacheKey } from '../types';
 
 export class CacheManager {
   private cacheDir: string;
   private enabled: boolean;
+  private memories: Map<string, Promise<TranslationMemory>>;
+  private dirtyLanguages: Set<string>;
 
   constructor(cacheDir: string, enabled: boolean = true) {
     this.cacheDir = cacheDir;
     this.enabled = enabled;
+    this.memories = new Map();
+    this.dirtyLanguages = new Set();
   }
 
   async initialize(): Promise<void> {
@@ -18,85 +22,138 @@ export class CacheManager {
     }
   }
 
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
   private generateHash(content: string): string {
     return crypto.createHash('md5').update(content).digest('hex');
   }
 
-  private getCacheFilePath(sourceFile: string, language: string): string {
-    const hash = this.generateHash(`${sourceFile}-${language}`);
-    return path.join(this.cacheDir, `${hash}.json`);
+  private getMemoryFilePath(language: string): string {
+    return path.join(this.cacheDir, `memory-${language}.json`);
   }
 
-  async get(
-    sourceFile: string,
-    content: string,
-    language: string
-  ): Promise<string | null> {
-    if (!this.enabled) return null;
+  private getSegmentHash(text: string, key: SegmentCacheKey): string {
+    return this.generateHash(`${key.sourceLanguage}\n${key.model}\n${key.glossaryVersion}\n${text}`);
+  }
 
-    const cacheFile = this.getCacheFilePath(sourceFile, language);
+  private loadMemory(language: string): Promise<TranslationMemory> {
+    let memory = this.memories.get(language);
+
+    if (!memory) {
+      memory = (async () => {
+        const memoryFile = this.getMemoryFilePath(language);
+        try {
+          if (await fs.pathExists(memoryFile)) {
+            const data: TranslationMemory = await fs.readJson(memoryFile);
+            if (data && data.segments) {
+              return data;
+            }
+          }
+        } catch (error) {
+          // Corrupt memory file, start over for this language
+          console.warn(`Cache read error for ${language}: ${error}`);
+        }
+        return { language, segments: {} };
+      })();
+      this.memories.set(language, memory);
+    }
 
-    try {
-      if (await fs.pathExists(cacheFile)) {
-        const cache: TranslationCache = await fs.readJson(cacheFile);
-        const contentHash = this.generateHash(content);
+    return memory;
+  }
 
-        // Check if content hasn't changed
-        if (cache.hash === contentHash && cache.translations[language]) {
-          return cache.translations[language];
-        }
+  /**
+   * Look up previously translated segments. Returns only the texts that
+   * have a stored translation for the same source language, model and
+   * glossary version.
+   */
+  async getSegments(
+    texts: string[],
+    language: string,
+    key: SegmentCacheKey
+  ): Promise<Record<string, string>> {
+    const found: Record<string, string> = {};
+    if (!this.enabled) return found;
+
+    const memory = await this.loadMemory(language);
+    for (const text of texts) {
+      const entry = memory.segments[this.getSegmentHash(text, key)];
+      if (entry) {
+        found[text] = entry.translation;
       }
-    } catch (error) {
-      // Cache miss or error, continue without cache
-      console.warn(`Cache read error for ${sourceFile}: ${error}`);
     }
 
-    return null;
+    return found;
   }
 
-  async set(
-    sourceFile: string,
-    content: string,
+  async setSegments(
+    translations: Record<string, string>,
     language: string,
-    translation: string
+    key: SegmentCacheKey
   ): Promise<void> {
     if (!this.enabled) return;
 
-    const cacheFile = this.getCacheFilePath(sourceFile, language);
-    const contentHash = this.generateHash(content);
+    const memory = await this.loadMemory(language);
+    const timestamp = Date.now();
+
+    for (const [text, translation] of Object.entries(translations)) {
+      memory.segments[this.getSegmentHash(text, key)] = { translation, timestamp };
+    }
 
-    let cache: TranslationCache;
+    this.dirtyLanguages.add(language);
+  }
 
-    try {
-      if (await fs.pathExists(cacheFile)) {
-        cache = await fs.readJson(cacheFile);
-      } else {
-        cache = {
-          hash: contentHash,
-          translations: {},
-          timestamp: Date.now(),
-        };
+  /**
+   * Drop the entries of `language` that belong to none of `texts` under
+   * `key`: segments removed from the site, and entries made for another
+   * source language, model or glossary. Returns the number of entries
+   * removed, or that would be removed with `dryRun`.
+   */
+  async pruneSegments(
+    texts: string[],
+    language: string,
+    key: SegmentCacheKey,
+    dryRun: boolean = false
+  ): Promise<number> {
+    if (!this.enabled) return 0;
+
+    const memory = await this.loadMemory(language);
+    const keep = new Set(texts.map(text => this.getSegmentHash(text, key)));
+    const orphaned = Object.keys(memory.segments).filter(hash => !keep.has(hash));
+
+    if (!dryRun && orphaned.length > 0) {
+      for (const hash of orphaned) {
+        delete memory.segments[hash];
       }
-    } catch (error) {
-      cache = {
-        hash: contentHash,
-        translations: {},
-        timestamp: Date.now(),
-      };
+      this.dirtyLanguages.add(language);
     }
 
-    cache.hash = contentHash;
-    cache.translations[language] = translation;
-    cache.timestamp = Date.now();
+    return orphaned.length;
+  }
+
+  /**
+   * Persist every language memory that changed since the last flush.
+   */
+  async flush(): Promise<void> {
+    if (!this.enabled) return;
+
+    for (const language of Array.from(this.dirtyLanguages)) {
+      this.dirtyLanguages.delete(language);
+      const memory = await this.loadMemory(language);
 
-    try {
-      await fs.writeJson(cacheFile, cache, { spaces: 2 });
-    } catch (error) {
-      console.warn(`Cache write error for ${sourceFile}: ${error}`);
+      try {
+        await fs.writeJson(this.getMemoryFilePath(language), memory, { spaces: 2 });
+      } catch (error) {
+        console.warn(`Cache write error for ${language}: ${error}`);
+      }
     }
   }
 
   async clear(): Promise<void> {
+    this.memories.clear();
+    this.dirtyLanguages.clear();
+
     if (this.enabled && await fs.pathExists(this.cacheDir)) {
       await fs.emptyDir(this.cacheDir);
     }
@@ -110,20 +167,20 @@ export class CacheManager {
       return { totalCached: 0, cacheSize: 0 };
     }
 
-    const files = await fs.readdir(this.cacheDir);
+    const files = (await fs.readdir(this.cacheDir))
+      .filter(f => f.startsWith('memory-') && f.endsWith('.json'));
     let totalSize = 0;
+    let totalCached = 0;
 
     for (const file of files) {
-      if (file.endsWith('.json')) {
-        const filePath = path.join(this.cacheDir, file);
-        const stats = await fs.stat(filePath);
-        totalSize += stats.size;
-      }
+      const language = file.slice('memory-'.length, -'.json'.length);
+      const memory = await this.loadMemory(language);
+      totalCached += Object.keys(memory.segments).length;
+
+      const stats = await fs.stat(path.join(this.cacheDir, file));
+      totalSize += stats.size;
     }
 
-    return {
-      totalCached: files.filter(f => f.endsWith('.json')).length,
-      cacheSize: totalSize,
-    };
+    return { totalCached, cacheSize: totalSize };
   }
-}
\ No newline at end of file
+}
@@ -5,32 +5,89 @@ import { TranslatorConfig } from '../types';
 import dotenv from 'dotenv';
 
 // Load environment variables
-dotenv.config();
+dotenv.config({ quiet: true });
 
 const ConfigSchema = z.object({
   sourceDir: z.string().min(1),
   outputDir: z.string().min(1),
+  sourceLanguage: z.string().optional(),
   targetLanguages: z.array(z.string()).min(1),
   openaiApiKey: z.string().optional(),
   openaiModel: z.string().optional().default('gpt-4o-mini'),
+  provider: z.object({
+    type: z.enum(['openai', 'openai-compatible', 'stub']).optional().default('openai'),
+    baseUrl: z.string().url().optional(),
+    apiKey: z.string().optional(),
+    stubMode: z.enum(['echo', 'prefix']).optional().default('echo'),
+  }).optional(),
   glossary: z.record(z.string(), z.record(z.string(), z.string())).optional(),
   ignorePaths: z.array(z.string()).optional(),
   cache: z.object({
     enabled: z.boolean().optional().default(true),
     directory: z.string().optional().default('.translator-cache'),
   }).optional(),
+  review: z.object({
+    directory: z.string().optional().default('reviewed-translations'),
+  }).optional(),
+  overrides: z.object({
+    directory: z.string().optional().default('translation-overrides'),
+  }).optional(),
+  pricing: z.record(z.string(), z.object({
+    input: z.number().min(0),
+    output: z.number().min(0),
+    cachedInput: z.number().min(0).optional(),
+  })).optional(),
+  batching: z.object({
+    maxTokens: z.number().int().min(100).optional(),
+    maxSegments: z.number().int().min(1).optional(),
+  }).optional(),
+  budget: z.object({
+    maxCost: z.number().positive().optional(),
+  }).optional(),
   parallel: z.object({
     limit: z.number().min(1).max(20).optional().default(5),
   }).optional(),
+  links: z.object({
+    rewrite: z.boolean().optional().default(true),
+  }).optional(),
+  content: z.object({
+    mode: z.enum(['blocks', 'complete']).optional().default('blocks'),
+    attributes: z.array(z.union([
+      z.string(),
+      z.object({ selector: z.string(), attribute: z.string() }),
+    ])).optional(),
+    selectors: z.array(z.string()).optional(),
+    excludeSelectors: z.array(z.string()).optional(),
+    noTranslateAttribute: z.string().regex(/^data-[a-z0-9-]+$/, 'must be a data-* attribute').optional(),
+  }).optional(),
+  jsonLd: z.object({
+    enabled: z.boolean().optional().default(true),
+    fields: z.array(z.string()).optional(),
+  }).optional(),
+  assets: z.object({
+    strategy: z.enum(['copy', 'hardlink', 'symlink', 'shared', 'none']).optional().default('copy'),
+    ignore: z.array(z.string()).optional(),
+  }).optional(),
   seo: z.object({
     injectHreflang: z.boolean().optional().default(true),
     localizeMetaTags: z.boolean().optional().default(true),
     baseUrl: z.string().url().optional(),
+    xDefault: z.string().optional().default('source'),
+    hreflangInSource: z.boolean().optional().default(false),
+    sitemap: z.object({
+      enabled: z.boolean().optional().default(true),
+      filename: z.string().optional().default('sitemap.xml'),
+      splitThreshold: z.number().min(1).optional().default(10),
+    }).optional(),
   }).optional(),
   safety: z.object({
     preserveCodeBlocks: z.boolean().optional().default(true),
     preserveScripts: z.boolean().optional().default(true),
     preserveStyles: z.boolean().optional().default(true),
+    protectUrls: z.boolean().optional().default(true),
+    protectEmails: z.boolean().optional().default(true),
+    protectNumbers: z.boolean().optional().default(true),
+    protectVariables: z.boolean().optional().default(true),
   }).optional(),
 });
 
@@ -60,16 +117,41 @@ export async function loadConfig(configPath?: string): Promise<TranslatorConfig>
       config.parallel = { limit: 5 };
     }
     if (!config.seo) {
-      config.seo = { injectHreflang: true, localizeMetaTags: true };
+      config.seo = {
+        injectHreflang: true,
+        localizeMetaTags: true,
+        xDefault: 'source',
+        hreflangInSource: false,
+      };
     }
     if (!config.safety) {
       config.safety = {
         preserveCodeBlocks: true,
         preserveScripts: true,
         preserveStyles: true,
+        protectUrls: true,
+        protectEmails: true,
+        protectNumbers: true,
+        protectVariables: true,
       };
     }
 
+    if (config.sourceLanguage && !validateLanguageCode(config.sourceLanguage)) {
+      throw new Error(`Invalid sourceLanguage: ${config.sourceLanguage}. Use ISO 639-1 format (e.g., 'en' or 'en-US')`);
+    }
+
+    const xDefault = config.seo.xDefault;
+    if (
+      xDefault && xDefault !== 'source' && xDefault !== config.sourceLanguage &&
+      !config.targetLanguages.includes(xDefault)
+    ) {
+      throw new Error(`Invalid seo.xDefault: ${xDefault}. Use "source" or one of the target languages.`);
+    }
+
+    if (config.sourceLanguage) {
+      excludeSourceLanguage(config);
+    }
+
     return config;
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -89,6 +171,31 @@ export async function saveConfig(config: TranslatorConfig, configPath?: string):
   await fs.writeJson(configFile, config, { spaces: 2 });
 }
 
+/**
+ * Drop target languages equal to the source language (case-insensitive).
+ * Returns the removed codes so callers can report them.
+ */
+export function excludeSourceLanguage(config: TranslatorConfig): string[] {
+  const source = (config.sourceLanguage || 'en').toLowerCase();
+  const removed = config.targetLanguages.filter(lang => lang.toLowerCase() === source);
+
+  if (removed.length > 0) {
+    config.targetLanguages = config.targetLanguages.filter(lang => lang.toLowerCase() !== source);
+  }
+
+  return removed;
+}
+
+/**
+ * The configured target language `code` stands for, compared
+ * case-insensitively and with "_" read as "-" (gettext writes pt_BR for
+ * pt-BR). Undefined when it is not a target language.
+ */
+export function findTargetLanguage(config: TranslatorConfig, code: string): string | undefined {
+  const normalized = code.trim().replace(/_/g, '-').toLowerCase();
+  return config.targetLanguages.find(lang => lang.toLowerCase() === normalized);
+}
+
 export function validateLanguageCode(code: string): boolean {
   // Basic ISO 639-1 language code validation
   const languageCodeRegex = /^[a-z]{2}(-[A-Z]{2})?$/;
@@ -0,0 +1,100 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { z } from 'zod';
+import { TranslationOverride } from '../types';
+
+const OverridesSchema = z.array(z.object({
+  source: z.string().min(1),
+  translation: z.string(),
+  file: z.string().optional(),
+  selector: z.string().optional(),
+}));
+
+/**
+ * Fixed translations maintained by hand in `<directory>/<lang>.json`. Unlike
+ * the glossary, which only reaches the model as a prompt hint, an override
+ * replaces the segment outright and never goes through the API or cache.
+ */
+export class OverrideManager {
+  private directory: string;
+  private overrides: Map<string, Promise<TranslationOverride[]>>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.overrides = new Map();
+  }
+
+  load(language: string): Promise<TranslationOverride[]> {
+    let overrides = this.overrides.get(language);
+
+    if (!overrides) {
+      overrides = (async () => {
+        const file = path.join(this.directory, `${language}.json`);
+        if (!(await fs.pathExists(file))) {
+          return [];
+        }
+
+        const result = OverridesSchema.safeParse(await fs.readJson(file));
+        if (!result.success) {
+          const issues = result.error.issues.map(issue =>
+            `  - ${issue.path.join('.')}: ${issue.message}`
+          ).join('\n');
+          throw new Error(`Invalid overrides in ${file}:\n${issues}`);
+        }
+        return result.data;
+      })();
+      this.overrides.set(language, overrides);
+    }
+
+    return overrides;
+  }
+
+  /**
+   * Selectors used to scope overrides. Extraction records which of them
+   * contain each segment.
+   */
+  async getSelectors(languages: string[]): Promise<string[]> {
+    const selectors = new Set<string>();
+    for (const language of languages) {
+      for (const override of await this.load(language)) {
+        if (override.selector) selectors.add(override.selector);
+      }
+    }
+    return Array.from(selectors);
+  }
+
+  /**
+   * Find the override for one segment. The most specific match wins:
+   * file and selector, then selector, then file, then unscoped.
+   */
+  async resolve(
+    language: string,
+    source: string,
+    htmlFile: string | undefined,
+    selectors: string[]
+  ): Promise<string | undefined> {
+    let best: TranslationOverride | undefined;
+    let bestScore = -1;
+
+    for (const override of await this.load(language)) {
+      if (override.source !== source) continue;
+      if (override.selector && !selectors.includes(override.selector)) continue;
+      if (override.file && !(htmlFile && matchesFile(override.file, htmlFile))) continue;
+
+      const score = (override.selector ? 2 : 0) + (override.file ? 1 : 0);
+      if (score > bestScore) {
+        best = override;
+        bestScore = score;
+      }
+    }
+
+    return best?.translation;
+  }
+}
+
+// A trailing slash scopes an override to a whole directory
+function matchesFile(pattern: string, htmlFile: string): boolean {
+  const file = htmlFile.split(path.sep).join('/');
+  const normalized = pattern.replace(/^\.?\//, '');
+  return normalized.endsWith('/') ? file.startsWith(normalized) : file === normalized;
+}
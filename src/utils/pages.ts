@@ -0,0 +1,107 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { glob } from 'glob';
+import { TranslatorConfig, ExtractedPage } from '../types';
+import { HtmlProcessor } from '../core/html-processor';
+
+/**
+ * Find the HTML pages of the source site, relative to sourceDir.
+ */
+export async function findHtmlFiles(config: TranslatorConfig): Promise<string[]> {
+  return glob('**/*.html', {
+    cwd: path.resolve(config.sourceDir),
+    ignore: config.ignorePaths || [],
+  });
+}
+
+export async function extractPage(
+  htmlFile: string,
+  sourcePath: string,
+  htmlProcessor: HtmlProcessor
+): Promise<ExtractedPage> {
+  const htmlContent = await fs.readFile(sourcePath, 'utf-8');
+  const { mapping, processedHtml, placeholders, scopes } = await htmlProcessor.extractTranslatableContent(htmlContent);
+  const language = htmlProcessor.detectLanguage(htmlContent);
+
+  return { htmlFile, sourcePath, language, mapping, processedHtml, placeholders, scopes };
+}
+
+/**
+ * Extract every page once. Pages that cannot be read or parsed are returned
+ * as errors instead of aborting the whole run.
+ */
+export async function extractPages(
+  config: TranslatorConfig,
+  htmlFiles: string[],
+  htmlProcessor: HtmlProcessor
+): Promise<{
+  pages: ExtractedPage[];
+  errors: Array<{ htmlFile: string; sourcePath: string; message: string }>;
+}> {
+  const sourceDir = path.resolve(config.sourceDir);
+  const pages: ExtractedPage[] = [];
+  const errors: Array<{ htmlFile: string; sourcePath: string; message: string }> = [];
+
+  for (const htmlFile of htmlFiles) {
+    const sourcePath = path.join(sourceDir, htmlFile);
+    try {
+      pages.push(await extractPage(htmlFile, sourcePath, htmlProcessor));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      errors.push({ htmlFile, sourcePath, message });
+    }
+  }
+
+  return { pages, errors };
+}
+
+/**
+ * Source language: configured, or the language most pages declare.
+ */
+export function detectSourceLanguage(pages: ExtractedPage[]): string {
+  const counts = new Map<string, number>();
+  for (const page of pages) {
+    if (page.language) {
+      counts.set(page.language, (counts.get(page.language) || 0) + 1);
+    }
+  }
+
+  let detected = 'en';
+  let best = 0;
+  for (const [language, count] of counts.entries()) {
+    if (count > best) {
+      detected = language;
+      best = count;
+    }
+  }
+
+  return detected;
+}
+
+/**
+ * Key of a segment in the site-wide mapping: "<file>:<segment key>".
+ */
+export function getSegmentId(htmlFile: string, key: string): string {
+  return `${htmlFile.split(path.sep).join('/')}:${key}`;
+}
+
+/**
+ * Site-wide mapping and override scopes, keyed by "<file>:<segment key>".
+ */
+export function buildSiteMapping(pages: ExtractedPage[]): {
+  siteMapping: Map<string, string>;
+  siteScopes: Map<string, string[]>;
+} {
+  const siteMapping = new Map<string, string>();
+  const siteScopes = new Map<string, string[]>();
+  for (const page of pages) {
+    for (const [key, text] of page.mapping.entries()) {
+      siteMapping.set(getSegmentId(page.htmlFile, key), text);
+    }
+    for (const [key, selectors] of page.scopes.entries()) {
+      siteScopes.set(getSegmentId(page.htmlFile, key), selectors);
+    }
+  }
+
+  return { siteMapping, siteScopes };
+}
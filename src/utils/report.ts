@@ -0,0 +1,148 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { TranslationReport, TranslationStats, CostEntry, LanguageCost, ReportedResult } from '../types';
+
+export function getReportPath(outputDir: string): string {
+  return path.join(outputDir, 'translation-report.json');
+}
+
+/**
+ * Read the report of the previous run, or null when there is none. Results
+ * of reports written before they carried their page path get it from
+ * `source`.
+ */
+export async function loadReport(outputDir: string, sourceDir: string): Promise<TranslationReport | null> {
+  const reportPath = getReportPath(outputDir);
+  if (!await fs.pathExists(reportPath)) {
+    return null;
+  }
+
+  const report = await fs.readJson(reportPath);
+  return {
+    ...report,
+    results: (report.results || []).map((result: ReportedResult) => ({
+      ...result,
+      file: result.file ?? path.relative(path.resolve(sourceDir), path.resolve(result.source)),
+    })),
+    validationFailures: report.validationFailures || [],
+    remaining: report.remaining || [],
+  };
+}
+
+/**
+ * Pages to translate again per language. `failed` selects the pairs whose
+ * last result was a failure; `unfinished` selects every (file, language)
+ * pair of the current site without a successful result, including pages
+ * skipped by the budget and pages or languages added since.
+ */
+export function selectPendingPages(
+  report: TranslationReport,
+  htmlFiles: string[],
+  languages: string[],
+  mode: 'failed' | 'unfinished'
+): Map<string, Set<string>> {
+  const files = new Set(htmlFiles);
+  const succeeded = new Set<string>();
+  const selection = new Map<string, Set<string>>();
+
+  const select = (language: string, file: string) => {
+    if (!files.has(file) || !languages.includes(language)) return;
+    const pages = selection.get(language) || new Set<string>();
+    pages.add(file);
+    selection.set(language, pages);
+  };
+
+  for (const result of report.results) {
+    if (result.success) {
+      succeeded.add(getPairKey(result.file, result.language));
+    } else {
+      select(result.language, result.file);
+    }
+  }
+
+  if (mode === 'unfinished') {
+    for (const language of languages) {
+      for (const file of htmlFiles) {
+        if (!succeeded.has(getPairKey(file, language))) {
+          select(language, file);
+        }
+      }
+    }
+  }
+
+  return selection;
+}
+
+/**
+ * Fold the report of a partial run into the previous one. Pairs that were
+ * run again replace their earlier result, remaining entry and validation
+ * failures; everything else is kept. Token and cost figures add up.
+ */
+export function mergeReports(previous: TranslationReport, current: TranslationReport): TranslationReport {
+  const rerun = new Set([
+    ...current.results.map(result => getPairKey(result.file, result.language)),
+    ...current.remaining.map(page => getPairKey(page.file, page.language)),
+  ]);
+
+  const results = [
+    ...previous.results.filter(result => !rerun.has(getPairKey(result.file, result.language))),
+    ...current.results,
+  ];
+  const remaining = [
+    ...previous.remaining.filter(page => !rerun.has(getPairKey(page.file, page.language))),
+    ...current.remaining,
+  ];
+  const validationFailures = [
+    ...previous.validationFailures.filter(failure => !failure.segments.some(segment =>
+      rerun.has(getPairKey(segment.slice(0, segment.indexOf(':__')), failure.language))
+    )),
+    ...current.validationFailures,
+  ];
+
+  const stats: TranslationStats = {
+    totalFiles: results.length + remaining.length,
+    successfulFiles: results.filter(result => result.success).length,
+    failedFiles: results.filter(result => !result.success).length,
+    skippedFiles: remaining.length,
+    totalTokens: (previous.stats.totalTokens || 0) + current.stats.totalTokens,
+    promptTokens: (previous.stats.promptTokens || 0) + current.stats.promptTokens,
+    completionTokens: (previous.stats.completionTokens || 0) + current.stats.completionTokens,
+    cachedPromptTokens: (previous.stats.cachedPromptTokens || 0) + current.stats.cachedPromptTokens,
+    estimatedCost: (previous.stats.estimatedCost || 0) + current.stats.estimatedCost,
+    costByLanguage: mergeCosts(previous.stats.costByLanguage || {}, current.stats.costByLanguage),
+    duration: (previous.stats.duration || 0) + current.stats.duration,
+  };
+
+  return { timestamp: current.timestamp, stats, results, validationFailures, remaining };
+}
+
+function mergeCosts(
+  previous: Record<string, LanguageCost>,
+  current: Record<string, LanguageCost>
+): Record<string, LanguageCost> {
+  const merged: Record<string, LanguageCost> = { ...previous };
+
+  for (const [language, cost] of Object.entries(current)) {
+    const earlier = merged[language];
+    const files: Record<string, CostEntry> = { ...earlier?.files };
+    for (const [file, fileCost] of Object.entries(cost.files)) {
+      files[file] = addCost(files[file], fileCost);
+    }
+    merged[language] = { ...addCost(earlier, cost), files };
+  }
+
+  return merged;
+}
+
+function addCost(a: CostEntry | undefined, b: CostEntry): CostEntry {
+  return {
+    promptTokens: (a?.promptTokens || 0) + b.promptTokens,
+    completionTokens: (a?.completionTokens || 0) + b.completionTokens,
+    cachedPromptTokens: (a?.cachedPromptTokens || 0) + b.cachedPromptTokens,
+    cost: (a?.cost || 0) + b.cost,
+  };
+}
+
+function getPairKey(file: string, language: string): string {
+  return `${language}:${file.split(path.sep).join('/')}`;
+}
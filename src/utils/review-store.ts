@@ -0,0 +1,139 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ReviewedTranslations, ReviewedTranslationEntry } from '../types';
+
+/**
+ * Human-reviewed translations imported from CAT tools. Entries are keyed by
+ * segment id ("<file>:<segment key>") and take precedence over machine
+ * output as long as the source text they were reviewed against is unchanged.
+ *
+ * Unlike the translation cache, this store is meant to be committed and is
+ * never cleared by `--clear-cache`.
+ */
+export class ReviewStore {
+  private directory: string;
+  private stores: Map<string, Promise<ReviewedTranslations>>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.stores = new Map();
+  }
+
+  private getFilePath(language: string): string {
+    return path.join(this.directory, `${language}.json`);
+  }
+
+  private load(language: string): Promise<ReviewedTranslations> {
+    let store = this.stores.get(language);
+
+    if (!store) {
+      store = (async () => {
+        const file = this.getFilePath(language);
+        if (await fs.pathExists(file)) {
+          const data: ReviewedTranslations = await fs.readJson(file);
+          if (data && data.segments) {
+            return data;
+          }
+        }
+        return { language, segments: {} };
+      })();
+      this.stores.set(language, store);
+    }
+
+    return store;
+  }
+
+  async get(language: string): Promise<Record<string, ReviewedTranslationEntry>> {
+    return (await this.load(language)).segments;
+  }
+
+  /**
+   * Split a site-wide mapping into reviewed translations and the segments
+   * still left to translate. Segment keys are positional, so when a page
+   * gains or loses a block the entry of a segment is looked up by its page
+   * and source text instead. Entries whose source text changed since the
+   * review are reported as stale and not applied.
+   */
+  async resolve(
+    mapping: Map<string, string>,
+    language: string
+  ): Promise<{ translations: Record<string, string>; remaining: Map<string, string>; stale: string[] }> {
+    const segments = await this.get(language);
+    const translations: Record<string, string> = {};
+    const remaining = new Map<string, string>();
+    const stale: string[] = [];
+    const bySource = indexBySource(segments);
+
+    for (const [id, source] of mapping.entries()) {
+      const entry = segments[id];
+      if (entry && entry.source === source) {
+        translations[id] = entry.translation;
+        continue;
+      }
+
+      const moved = bySource.get(getSourceKey(id, source));
+      if (moved !== undefined) {
+        translations[id] = moved;
+      } else {
+        if (entry) stale.push(id);
+        remaining.set(id, source);
+      }
+    }
+
+    return { translations, remaining, stale };
+  }
+
+  /**
+   * Store reviewed translations for a language and persist them. Returns
+   * the number of entries added or changed.
+   */
+  async import(
+    language: string,
+    entries: Array<{ id: string; source: string; translation: string }>,
+    origin: string
+  ): Promise<number> {
+    const store = await this.load(language);
+    const timestamp = Date.now();
+    let changed = 0;
+
+    for (const { id, source, translation } of entries) {
+      const existing = store.segments[id];
+      if (existing && existing.source === source && existing.translation === translation) {
+        continue;
+      }
+      store.segments[id] = { source, translation, origin, timestamp };
+      changed++;
+    }
+
+    await fs.ensureDir(this.directory);
+    await fs.writeJson(this.getFilePath(language), store, { spaces: 2 });
+    return changed;
+  }
+}
+
+/**
+ * Reviewed translations by page and source text. A text reviewed more than
+ * once on a page with different translations is left out, since it cannot
+ * tell which one was meant.
+ */
+function indexBySource(segments: Record<string, ReviewedTranslationEntry>): Map<string, string> {
+  const index = new Map<string, string>();
+  const ambiguous = new Set<string>();
+
+  for (const [id, entry] of Object.entries(segments)) {
+    const key = getSourceKey(id, entry.source);
+    const existing = index.get(key);
+    if (existing !== undefined && existing !== entry.translation) {
+      ambiguous.add(key);
+    }
+    index.set(key, entry.translation);
+  }
+
+  ambiguous.forEach(key => index.delete(key));
+  return index;
+}
+
+function getSourceKey(id: string, source: string): string {
+  const separator = id.indexOf(':__');
+  return `${separator > 0 ? id.slice(0, separator) : ''}\0${source}`;
+}
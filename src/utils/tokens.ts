@@ -0,0 +1,45 @@
+import { getEncoding, getEncodingNameForModel, Tiktoken, TiktokenEncoding, TiktokenModel } from 'js-tiktoken';
+
+// Scripts where a single character is usually one token or more
+const DENSE_SCRIPT = /[\u0400-\u04FF\u0590-\u06FF\u0E00-\u0E7F\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF]/g;
+
+/**
+ * Estimate the number of model tokens in a text. Latin text averages about
+ * four characters per token; CJK, Cyrillic, Arabic, Hebrew and Thai are
+ * much denser. Errs on the high side so budgets are not exceeded.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+
+  const dense = (text.match(DENSE_SCRIPT) || []).length;
+  const other = text.length - dense;
+  return Math.ceil(other / 3.5 + dense * 1.1);
+}
+
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+/**
+ * Count the tokens of `text` with the tokenizer of an OpenAI model, or the
+ * GPT-4o one for models it does not know. Loading a tokenizer takes a
+ * moment, so this is kept for figures shown to the user or checked against
+ * a budget; batching uses estimateTokens.
+ */
+export function countTokens(text: string, model: string): number {
+  if (!text) return 0;
+
+  let name: TiktokenEncoding;
+  try {
+    name = getEncodingNameForModel(model as TiktokenModel);
+  } catch (e) {
+    name = 'o200k_base';
+  }
+
+  let encoder = encoders.get(name);
+  if (!encoder) {
+    encoder = getEncoding(name);
+    encoders.set(name, encoder);
+  }
+
+  // Page text may contain special token markers; count them as plain text
+  return encoder.encode(text, [], []).length;
+}
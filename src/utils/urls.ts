@@ -0,0 +1,38 @@
+import * as path from 'path';
+import { TranslatorConfig } from '../types';
+
+/**
+ * Public URL of a page (relative to sourceDir) in the given language.
+ * Without a language the source page URL is returned. Directory indexes
+ * are addressed by their directory (`blog/index.html` → `/blog/`).
+ * Falls back to root-relative URLs when seo.baseUrl is not configured.
+ */
+export function getPageUrl(
+  config: TranslatorConfig,
+  pagePath: string,
+  language?: string
+): string {
+  const base = config.seo?.baseUrl ? config.seo.baseUrl.replace(/\/$/, '') : '';
+  const page = pagePath
+    .split(path.sep).join('/')
+    .replace(/(^|\/)index\.html?$/i, '$1');
+  const prefix = language ? `${language}/` : '';
+
+  return `${base}/${prefix}${page}`;
+}
+
+/**
+ * URL used for the x-default alternate: the source page unless seo.xDefault
+ * names one of the target languages.
+ */
+export function getXDefaultUrl(
+  config: TranslatorConfig,
+  pagePath: string,
+  sourceLanguage: string
+): string {
+  const xDefault = config.seo?.xDefault;
+  if (xDefault && xDefault !== 'source' && xDefault !== sourceLanguage) {
+    return getPageUrl(config, pagePath, xDefault);
+  }
+  return getPageUrl(config, pagePath);
+}
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Watch a directory tree and call `onChange` with the files (relative to
+ * `directory`) changed since the last call. Events are collected until none
+ * has arrived for `debounceMs`, so a static site generator rewriting
+ * hundreds of files triggers one rebuild. Calls never overlap: changes made
+ * during a rebuild are handled in the next one. Recursive watching on Linux
+ * needs Node 20, which `engines` requires.
+ */
+export function watchDirectory(
+  directory: string,
+  onChange: (files: string[]) => Promise<void>,
+  debounceMs: number
+): { close: () => void } {
+  const changed = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = false;
+
+  const run = async () => {
+    timer = undefined;
+    if (running || changed.size === 0) return;
+
+    running = true;
+    const files = Array.from(changed);
+    changed.clear();
+
+    try {
+      await onChange(files);
+    } finally {
+      running = false;
+      if (changed.size > 0 && !timer) {
+        timer = setTimeout(run, debounceMs);
+      }
+    }
+  };
+
+  const watcher = fs.watch(directory, { recursive: true }, (_event, filename) => {
+    if (!filename) return;
+
+    changed.add(filename.toString().split(path.sep).join('/'));
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(run, debounceMs);
+  });
+
+  return {
+    close: () => {
+      if (timer) clearTimeout(timer);
+      watcher.close();
+    },
+  };
+}